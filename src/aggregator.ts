@@ -0,0 +1,399 @@
+/**
+ * Merges several upstream MCP App servers behind one downstream server.
+ *
+ * Each upstream's tools are exposed under its prefix (e.g. `excalidraw__create_view`)
+ * so names from different servers cannot clash, and calls are routed back to
+ * the owning upstream under the tool's original name. Resource URIs are left
+ * untouched — apps reference their own `ui://` resources by URI — and reads are
+ * routed to whichever upstream listed the URI. Prompts are prefixed like tools.
+ * Tool lists are rebuilt on every request, so upstream `tools/list_changed`
+ * refreshes take effect immediately.
+ *
+ * Paginated lists walk the upstreams one page at a time; the downstream cursor
+ * records which upstream comes next and that upstream's own cursor.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type Tool,
+  type ListResourcesResult,
+  type ListResourceTemplatesResult,
+  type ListPromptsResult,
+  type GetPromptRequest,
+  type GetPromptResult,
+  type CompleteRequest,
+  type CompleteResult,
+  type LoggingLevel,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  defaultUpstreamName,
+  startUpstream,
+  type StartUpstreamOptions,
+  type Upstream,
+  type UpstreamSpec,
+} from "./upstream.js";
+import { createLogger } from "./log.js";
+import type { ToolsConfig } from "./config.js";
+import { applyToolOverride, type ToolOverride } from "./tool-overrides.js";
+
+const log = createLogger("mcp-app-shim");
+
+export interface ToolRoute {
+  upstream: Upstream;
+  /** The tool as the upstream declares it (unprefixed name). */
+  tool: Tool;
+  /** The tool as the MCP client sees it, with its prefix and any override applied. */
+  exposed: Tool;
+  /** From `tools.overrides`; its arguments are applied with applyToolArguments. */
+  override?: ToolOverride;
+}
+
+export interface Aggregator {
+  readonly upstreams: Upstream[];
+  readonly hasResources: boolean;
+  readonly hasPrompts: boolean;
+  readonly hasCompletions: boolean;
+  readonly hasLogging: boolean;
+  /** Tools from every upstream the model may see, renamed with their upstream's prefix. */
+  listTools(): Tool[];
+  /** Routes a call from the MCP client; app-only tools are not found. */
+  resolveTool(exposedName: string): ToolRoute | undefined;
+  /**
+   * Names (as `upstream` knows them) of the tools its apps may call with
+   * callServerTool; model-only tools are left out.
+   */
+  appTools(upstream: Upstream): string[];
+  listResources(cursor?: string): Promise<ListResourcesResult>;
+  listResourceTemplates(cursor?: string): Promise<ListResourceTemplatesResult>;
+  readResource(uri: string): Promise<ReadResourceResult>;
+  /** Prompts from every upstream, renamed with their upstream's prefix. */
+  listPrompts(cursor?: string): Promise<ListPromptsResult>;
+  getPrompt(params: GetPromptRequest["params"]): Promise<GetPromptResult>;
+  complete(params: CompleteRequest["params"]): Promise<CompleteResult>;
+  setLoggingLevel(level: LoggingLevel): Promise<void>;
+  ping(): Promise<void>;
+  /** Whether any upstream supports resources/subscribe. */
+  readonly canSubscribe: boolean;
+  subscribeResource(uri: string): Promise<void>;
+  unsubscribeResource(uri: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface AggregatorOptions extends StartUpstreamOptions {
+  /** Allow/deny and timeout globs matched against prefixed upstream tool names. */
+  tools?: ToolsConfig;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${source}$`);
+}
+
+function createTimeoutLookup(tools: ToolsConfig = {}): (exposedName: string) => number | undefined {
+  const patterns = Object.entries(tools.timeouts ?? {}).map(([glob, ms]) => [globToRegExp(glob), ms] as const);
+  return (exposedName) => patterns.find(([re]) => re.test(exposedName))?.[1];
+}
+
+/**
+ * Who may see and call a tool, from its `_meta.ui.visibility`: app-only tools
+ * are helpers for an app's UI, model-only tools must not be driven by an app.
+ * Tools without (valid) visibility are visible to both.
+ */
+function isVisibleTo(tool: Tool, audience: "model" | "app"): boolean {
+  const visibility = (tool._meta?.ui as { visibility?: unknown } | undefined)?.visibility;
+  if (!Array.isArray(visibility) || visibility.length === 0) return true;
+  return visibility.includes(audience);
+}
+
+function createToolFilter(tools: ToolsConfig = {}): (exposedName: string) => boolean {
+  const allow = tools.allow?.map(globToRegExp);
+  const deny = (tools.deny ?? []).map(globToRegExp);
+  return (exposedName) =>
+    (!allow || allow.some(re => re.test(exposedName))) && !deny.some(re => re.test(exposedName));
+}
+
+interface PageCursor {
+  /** Index into the upstream list. */
+  upstream: number;
+  cursor?: string;
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): PageCursor {
+  if (cursor === undefined) return { upstream: 0 };
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as PageCursor;
+    if (Number.isInteger(decoded.upstream) && (decoded.cursor === undefined || typeof decoded.cursor === "string")) {
+      return decoded;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
+
+export async function createAggregator(specs: UpstreamSpec[], options: AggregatorOptions): Promise<Aggregator> {
+  // Resolve names (unique) and prefixes; a lone upstream is unprefixed by default
+  const names = new Set<string>();
+  const prefixes = new Map<string, string>();
+  const resolved = specs.map((spec) => {
+    let name = spec.name ?? defaultUpstreamName(spec);
+    for (let i = 2; names.has(name); i++) name = `${spec.name ?? defaultUpstreamName(spec)}${i}`;
+    names.add(name);
+    prefixes.set(name, spec.prefix ?? (specs.length > 1 ? `${name}__` : ""));
+    return { name, spec };
+  });
+
+  const resourceOwners = new Map<string, Upstream>();
+  const templateOwners = new Map<string, Upstream>();
+  const subscriptionOwners = new Map<string, Upstream>();
+
+  const timeoutFor = createTimeoutLookup(options.tools);
+
+  const upstreams = await Promise.all(
+    resolved.map(({ name, spec }) => startUpstream(name, spec, {
+      ...options,
+      toolTimeout: (toolName) => timeoutFor(prefixes.get(name)! + toolName),
+      fixedArguments: (toolName) => options.tools?.overrides?.[prefixes.get(name)! + toolName]?.arguments,
+      onResourcesChanged(upstream) {
+        // Forget which URIs this upstream owned; the next list or read re-learns them
+        for (const owners of [resourceOwners, templateOwners]) {
+          for (const [uri, owner] of owners) {
+            if (owner === upstream) owners.delete(uri);
+          }
+        }
+        options.onResourcesChanged?.(upstream);
+      },
+    })),
+  );
+  const reportedClashes = new Set<string>();
+  const isExposed = createToolFilter(options.tools);
+  // Apps can only reach exposed tools, and only those `tools.appAllow` lets through
+  const isAppCallable = createToolFilter({ allow: options.tools?.appAllow });
+
+  function buildRoutes(): Map<string, ToolRoute> {
+    const routes = new Map<string, ToolRoute>();
+    for (const upstream of upstreams) {
+      const prefix = prefixes.get(upstream.name)!;
+      for (const tool of upstream.tools.values()) {
+        // Filters and overrides go by the prefixed name; a renamed tool is routed by its new name
+        const prefixedName = prefix + tool.name;
+        if (!isExposed(prefixedName)) continue;
+        const override = options.tools?.overrides?.[prefixedName];
+        const exposed = applyToolOverride(tool, prefixedName, override);
+        const exposedName = exposed.name;
+        const existing = routes.get(exposedName);
+        if (existing) {
+          if (!reportedClashes.has(exposedName)) {
+            reportedClashes.add(exposedName);
+            log(`Tool name clash: ${exposedName} (${existing.upstream.name} wins over ${upstream.name}); set a prefix to expose both`);
+          }
+          continue;
+        }
+        routes.set(exposedName, { upstream, tool, exposed, override });
+      }
+    }
+    return routes;
+  }
+
+  /** Fetches the page `cursor` points at from the upstreams that `supports`. */
+  async function listPage<T>(
+    cursor: string | undefined,
+    supports: (upstream: Upstream) => boolean,
+    fetchPage: (upstream: Upstream, cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>,
+  ): Promise<{ items: T[]; nextCursor?: string }> {
+    const position = decodeCursor(cursor);
+    const nextSupporting = (from: number) => upstreams.findIndex((u, i) => i >= from && supports(u));
+
+    const index = nextSupporting(position.upstream);
+    if (index === -1) return { items: [] };
+
+    const page = await fetchPage(upstreams[index], index === position.upstream ? position.cursor : undefined);
+    if (page.nextCursor) {
+      return { items: page.items, nextCursor: encodeCursor({ upstream: index, cursor: page.nextCursor }) };
+    }
+    const following = nextSupporting(index + 1);
+    return {
+      items: page.items,
+      ...(following === -1 ? {} : { nextCursor: encodeCursor({ upstream: following }) }),
+    };
+  }
+
+  function resolvePrompt(exposedName: string): { upstream: Upstream; name: string } | undefined {
+    // The longest matching prefix wins, so "" only catches what no other prefix does
+    let best: { upstream: Upstream; prefix: string } | undefined;
+    for (const upstream of upstreams) {
+      if (!upstream.capabilities.prompts) continue;
+      const prefix = prefixes.get(upstream.name)!;
+      if (exposedName.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) {
+        best = { upstream, prefix };
+      }
+    }
+    return best && { upstream: best.upstream, name: exposedName.slice(best.prefix.length) };
+  }
+
+  return {
+    upstreams,
+    get hasResources() {
+      return upstreams.some(u => u.hasResources);
+    },
+    hasPrompts: upstreams.some(u => u.capabilities.prompts),
+    hasCompletions: upstreams.some(u => u.capabilities.completions),
+    hasLogging: upstreams.some(u => u.capabilities.logging),
+
+    listTools() {
+      return Array.from(buildRoutes().values())
+        .filter(({ tool }) => isVisibleTo(tool, "model"))
+        .map(({ exposed }) => exposed);
+    },
+
+    resolveTool(exposedName) {
+      const route = buildRoutes().get(exposedName);
+      return route && isVisibleTo(route.tool, "model") ? route : undefined;
+    },
+
+    // From the upstream's own tools: a name clash hiding one from the client does not hide it from the app
+    appTools(upstream) {
+      const prefix = prefixes.get(upstream.name)!;
+      return Array.from(upstream.tools.values())
+        .filter((tool) => isExposed(prefix + tool.name) && isAppCallable(prefix + tool.name) && isVisibleTo(tool, "app"))
+        .map((tool) => tool.name);
+    },
+
+    async listResources(cursor) {
+      const { items, nextCursor } = await listPage(cursor, u => u.hasResources, async (upstream, upstreamCursor) => {
+        const result = await upstream.withClient(client =>
+          client.listResources(upstreamCursor ? { cursor: upstreamCursor } : undefined));
+        for (const resource of result.resources) {
+          if (!resourceOwners.has(resource.uri)) resourceOwners.set(resource.uri, upstream);
+        }
+        return { items: result.resources, nextCursor: result.nextCursor };
+      });
+      return { resources: items, ...(nextCursor ? { nextCursor } : {}) };
+    },
+
+    async listResourceTemplates(cursor) {
+      const { items, nextCursor } = await listPage(cursor, u => u.hasResources, async (upstream, upstreamCursor) => {
+        try {
+          const result = await upstream.withClient(client =>
+            client.listResourceTemplates(upstreamCursor ? { cursor: upstreamCursor } : undefined));
+          for (const template of result.resourceTemplates) {
+            if (!templateOwners.has(template.uriTemplate)) templateOwners.set(template.uriTemplate, upstream);
+          }
+          return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+        } catch (err) {
+          // Templates are optional even for servers with resources
+          if (err instanceof McpError && err.code === ErrorCode.MethodNotFound) return { items: [] };
+          throw err;
+        }
+      });
+      return { resourceTemplates: items, ...(nextCursor ? { nextCursor } : {}) };
+    },
+
+    async readResource(uri) {
+      const owner = resourceOwners.get(uri);
+      if (owner) return owner.withClient(client => client.readResource({ uri }));
+
+      // Not listed (yet) — ask each upstream in turn
+      let lastError: unknown = new Error(`Unknown resource: ${uri}`);
+      for (const upstream of upstreams) {
+        try {
+          const result = await upstream.withClient(client => client.readResource({ uri }));
+          resourceOwners.set(uri, upstream);
+          return result;
+        } catch (err) {
+          lastError = err;
+        }
+      }
+      throw lastError;
+    },
+
+    async listPrompts(cursor) {
+      const { items, nextCursor } = await listPage(cursor, u => Boolean(u.capabilities.prompts), async (upstream, upstreamCursor) => {
+        const result = await upstream.withClient(client =>
+          client.listPrompts(upstreamCursor ? { cursor: upstreamCursor } : undefined));
+        const prefix = prefixes.get(upstream.name)!;
+        return {
+          items: result.prompts.map(prompt => ({ ...prompt, name: prefix + prompt.name })),
+          nextCursor: result.nextCursor,
+        };
+      });
+      return { prompts: items, ...(nextCursor ? { nextCursor } : {}) };
+    },
+
+    async getPrompt(params) {
+      const route = resolvePrompt(params.name);
+      if (!route) throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${params.name}`);
+      return route.upstream.withClient(client => client.getPrompt({ ...params, name: route.name }));
+    },
+
+    async complete(params) {
+      const { ref } = params;
+      if (ref.type === "ref/prompt") {
+        const route = resolvePrompt(ref.name);
+        if (!route) throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+        return route.upstream.withClient(client => client.complete({ ...params, ref: { ...ref, name: route.name } }));
+      }
+
+      const owner = templateOwners.get(ref.uri);
+      if (owner) return owner.withClient(client => client.complete(params));
+
+      // Not listed (yet) — ask each upstream in turn
+      let lastError: unknown = new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+      for (const upstream of upstreams) {
+        if (!upstream.capabilities.completions) continue;
+        try {
+          return await upstream.withClient(client => client.complete(params));
+        } catch (err) {
+          lastError = err;
+        }
+      }
+      throw lastError;
+    },
+
+    async setLoggingLevel(level) {
+      await Promise.all(upstreams.filter(u => u.capabilities.logging).map(u => u.setLoggingLevel(level)));
+    },
+
+    async ping() {
+      await Promise.all(upstreams.map(u => u.withClient(client => client.ping())));
+    },
+
+    get canSubscribe() {
+      return upstreams.some(u => u.canSubscribe);
+    },
+
+    async subscribeResource(uri) {
+      const listed = resourceOwners.get(uri);
+      const candidates = listed ? [listed] : upstreams.filter(u => u.canSubscribe);
+      let lastError: unknown = new Error(`No upstream supports subscribing to ${uri}`);
+      for (const upstream of candidates) {
+        if (!upstream.canSubscribe) continue;
+        try {
+          await upstream.subscribe(uri, "client");
+          subscriptionOwners.set(uri, upstream);
+          return;
+        } catch (err) {
+          lastError = err;
+        }
+      }
+      throw lastError;
+    },
+
+    async unsubscribeResource(uri) {
+      const owner = subscriptionOwners.get(uri);
+      if (!owner) return;
+      subscriptionOwners.delete(uri);
+      await owner.unsubscribe(uri, "client");
+    },
+
+    async close() {
+      await Promise.all(upstreams.map(u => u.close()));
+    },
+  };
+}
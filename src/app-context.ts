@@ -0,0 +1,168 @@
+/**
+ * What apps tell the model.
+ *
+ * Host pages pass on each app's `ui/message`, `ui/update-model-context` and
+ * log messages. They are kept per session and exposed downstream as one
+ * resource per session (`mcp-app-shim://sessions/<id>`), and the latest model
+ * context plus any messages the model has not seen yet are added to the next
+ * result of the same app's tool, so edits made in the browser reach the
+ * conversation.
+ */
+
+import type {
+  ContentBlock,
+  LoggingMessageNotification,
+  ReadResourceResult,
+  Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { AppMessage } from "./viewer-protocol.js";
+
+export const SESSION_RESOURCE_PREFIX = "mcp-app-shim://sessions/";
+
+/** Older log messages are dropped; they are for debugging, not the model. */
+const MAX_LOG_MESSAGES = 50;
+
+export interface AppSessionInfo {
+  /** Tool name as the MCP client knows it. */
+  toolName: string;
+  upstreamName: string;
+  /** The UI resource the app was loaded from. */
+  resourceUri: string;
+  url: string;
+}
+
+interface SessionContext extends AppSessionInfo {
+  sessionId: string;
+  modelContext?: {
+    content?: ContentBlock[];
+    structuredContent?: Record<string, unknown>;
+    updatedAt: string;
+  };
+  messages: { content: ContentBlock[]; sentAt: string }[];
+  logs: LoggingMessageNotification["params"][];
+  /** Set while the model context has changed since a tool result last carried it. */
+  contextUnseen: boolean;
+  /** How many of `messages` a tool result has carried. */
+  messagesSeen: number;
+}
+
+export interface AppContexts {
+  /** Starts tracking a session (or updates one whose tab was reused) and returns its resource URI. */
+  open(sessionId: string, info: AppSessionInfo): string;
+  /** Stops tracking a session that was deleted or went with its viewer; false if it was not tracked. */
+  close(sessionId: string): boolean;
+  /** Records what the app sent; returns the session's resource URI, or undefined for unknown sessions. */
+  record(sessionId: string, message: AppMessage): string | undefined;
+  owns(uri: string): boolean;
+  list(): Resource[];
+  read(uri: string): ReadResourceResult | undefined;
+  /** The latest model context and the messages an app sent, if the session is known. */
+  state(sessionId: string): Pick<SessionContext, "modelContext" | "messages"> | undefined;
+  /** The most recent session of this app, if any. */
+  latest(upstreamName: string, resourceUri: string): string | undefined;
+  /** Content from the session the model has not seen yet, which is then marked as seen. */
+  takeUnseen(sessionId: string): ContentBlock[];
+}
+
+export function createAppContexts(): AppContexts {
+  const contexts = new Map<string, SessionContext>();
+  const uriOf = (sessionId: string) => SESSION_RESOURCE_PREFIX + sessionId;
+
+  return {
+    open(sessionId, info) {
+      const existing = contexts.get(sessionId);
+      // A reused tab showing the same app keeps what it has told the model so far
+      const keep = existing?.upstreamName === info.upstreamName && existing.resourceUri === info.resourceUri;
+      contexts.delete(sessionId);
+      contexts.set(sessionId, keep
+        ? { ...existing, ...info }
+        : { ...info, sessionId, messages: [], logs: [], contextUnseen: false, messagesSeen: 0 });
+      return uriOf(sessionId);
+    },
+
+    close(sessionId) {
+      return contexts.delete(sessionId);
+    },
+
+    record(sessionId, message) {
+      const context = contexts.get(sessionId);
+      if (!context) return undefined;
+      const now = new Date().toISOString();
+      switch (message.method) {
+        case "ui/message":
+          context.messages.push({ content: message.params.content, sentAt: now });
+          break;
+        case "ui/update-model-context":
+          context.modelContext = { ...message.params, updatedAt: now };
+          context.contextUnseen = true;
+          break;
+        case "notifications/message":
+          context.logs.push(message.params);
+          context.logs.splice(0, context.logs.length - MAX_LOG_MESSAGES);
+          break;
+      }
+      return uriOf(sessionId);
+    },
+
+    owns(uri) {
+      return uri.startsWith(SESSION_RESOURCE_PREFIX) && contexts.has(uri.slice(SESSION_RESOURCE_PREFIX.length));
+    },
+
+    list() {
+      return [...contexts.values()].map((context) => ({
+        uri: uriOf(context.sessionId),
+        name: `app-session-${context.sessionId}`,
+        title: `${context.toolName} app (session ${context.sessionId})`,
+        description: `Model context, messages and logs from the ${context.toolName} app open at ${context.url}`,
+        mimeType: "application/json",
+      }));
+    },
+
+    read(uri) {
+      const context = uri.startsWith(SESSION_RESOURCE_PREFIX)
+        ? contexts.get(uri.slice(SESSION_RESOURCE_PREFIX.length))
+        : undefined;
+      if (!context) return undefined;
+      const { sessionId, toolName, upstreamName, url, modelContext, messages, logs } = context;
+      const text = JSON.stringify({
+        sessionId,
+        tool: toolName,
+        upstream: upstreamName,
+        url,
+        modelContext: modelContext ?? null,
+        messages,
+        logs,
+      }, null, 2);
+      return { contents: [{ uri, mimeType: "application/json", text }] };
+    },
+
+    state(sessionId) {
+      const context = contexts.get(sessionId);
+      return context && { modelContext: context.modelContext, messages: context.messages };
+    },
+
+    latest(upstreamName, resourceUri) {
+      return [...contexts.values()]
+        .filter(c => c.upstreamName === upstreamName && c.resourceUri === resourceUri)
+        .pop()?.sessionId;
+    },
+
+    takeUnseen(sessionId) {
+      const context = contexts.get(sessionId);
+      if (!context) return [];
+
+      const blocks: ContentBlock[] = [];
+      if (context.contextUnseen && context.modelContext) {
+        const { content = [], structuredContent } = context.modelContext;
+        blocks.push({ type: "text", text: `Current state of the app at ${context.url}:` }, ...content);
+        if (structuredContent) blocks.push({ type: "text", text: JSON.stringify(structuredContent) });
+      }
+      for (const message of context.messages.slice(context.messagesSeen)) {
+        blocks.push({ type: "text", text: `The user sent this from the app at ${context.url}:` }, ...message.content);
+      }
+      context.contextUnseen = false;
+      context.messagesSeen = context.messages.length;
+      return blocks;
+    },
+  };
+}
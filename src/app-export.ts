@@ -0,0 +1,147 @@
+/**
+ * Offline snapshots of app views, for runs without a browser (SSH, CI).
+ *
+ * Each app tool call is written as one self-contained HTML file: the app HTML,
+ * the tool input and the tool result, plus a minimal AppBridge host that
+ * replays `ui/initialize` and the tool-input/tool-result notifications without
+ * a WebSocket. The file can be opened later from disk; server tool calls are
+ * answered with an error since there is no shim behind it. The app's declared
+ * CSP applies here too (the srcdoc frame inherits the page's policy).
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { randomUUID } from "node:crypto";
+import { createLogger } from "./log.js";
+import { APP_REQUEST_METHODS, type AppView } from "./viewer-protocol.js";
+import { buildCsp } from "./csp.js";
+
+const log = createLogger("app-export");
+
+/** Writes the snapshot into `dir` (created if needed) and returns the file's absolute path. */
+export async function exportApp(dir: string, view: AppView, upstreamName: string): Promise<string> {
+  const exportedAt = new Date();
+  const stamp = exportedAt.toISOString().replace(/[:.]/g, "-");
+  const slug = `${upstreamName}-${view.toolName}`.replace(/[^A-Za-z0-9_-]+/g, "_");
+  const path = resolve(join(dir, `${stamp}-${slug}-${randomUUID().slice(0, 8)}.html`));
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(path, getSnapshotHtml({ ...view, upstreamName }, exportedAt), "utf-8");
+  log("Exported app view:", path);
+  return path;
+}
+
+function getSnapshotHtml(snapshot: AppView & { upstreamName: string }, exportedAt: Date): string {
+  // Safe inside <script>: nothing in the JSON can close the tag
+  const data = JSON.stringify({ ...snapshot, exportedAt: exportedAt.toISOString() }).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="color-scheme" content="light dark">
+  <meta http-equiv="Content-Security-Policy" content="${buildCsp(snapshot.csp)}">
+  <title>MCP App Snapshot</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    html, body { height: 100vh; width: 100vw; font-family: system-ui, sans-serif; }
+    body { display: flex; flex-direction: column; background: #f5f5f5; }
+    @media (prefers-color-scheme: dark) { body { background: #1a1a2e; color: #eee; } }
+    #status { padding: 8px 16px; font-size: 14px; color: #666; }
+    #app-frame { flex: 1; width: 100%; border: none; }
+  </style>
+</head>
+<body>
+  <div id="status"></div>
+  <iframe id="app-frame" sandbox="allow-scripts allow-forms"></iframe>
+
+  <script>
+    const snapshot = ${data};
+    const SERVER_METHODS = ${JSON.stringify(APP_REQUEST_METHODS)};
+    const frame = document.getElementById('app-frame');
+    const status = document.getElementById('status');
+    status.textContent = snapshot.toolName + ' (' + snapshot.upstreamName + ') — snapshot from '
+      + new Date(snapshot.exportedAt).toLocaleString();
+
+    window.addEventListener('message', (event) => {
+      if (event.source === frame.contentWindow && event.data && event.data.jsonrpc === '2.0') {
+        handleAppMessage(event.data);
+      }
+    });
+    frame.srcdoc = snapshot.html;
+
+    // AppBridge host-side protocol, replaying the recorded tool call
+    function handleAppMessage(msg) {
+      const method = msg.method;
+      const id = msg.id;
+
+      if (method === 'ui/initialize') {
+        sendToApp({
+          jsonrpc: '2.0',
+          id: id,
+          result: {
+            protocolVersion: msg.params?.protocolVersion || '2025-11-21',
+            hostInfo: {
+              name: 'mcp-app-shim',
+              version: '0.1.0',
+            },
+            hostCapabilities: {
+              openLinks: {},
+            },
+            hostContext: {
+              theme: window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
+              platform: 'web',
+              containerDimensions: { maxHeight: window.innerHeight - 40 },
+              displayMode: 'inline',
+              availableDisplayModes: ['inline'],
+            },
+          },
+        });
+        sendToApp({
+          jsonrpc: '2.0',
+          method: 'ui/notifications/tool-input',
+          params: { arguments: snapshot.toolInput },
+        });
+        sendToApp({
+          jsonrpc: '2.0',
+          method: 'ui/notifications/tool-result',
+          params: snapshot.toolResult,
+        });
+        return;
+      }
+
+      // No shim behind a snapshot to reach the app's server
+      if (SERVER_METHODS.includes(method)) {
+        sendToApp({
+          jsonrpc: '2.0',
+          id: id,
+          error: { code: -32601, message: method + ' is not available in an exported snapshot' },
+        });
+        return;
+      }
+
+      if (method === 'ui/notifications/size-changed' || method === 'ui/sizeChange') {
+        const { height } = msg.params || {};
+        if (height) frame.style.height = height + 'px';
+        if (id) sendToApp({ jsonrpc: '2.0', id, result: {} });
+        return;
+      }
+
+      if (method === 'ui/open-link' || method === 'ui/openLink') {
+        window.open(msg.params.url, '_blank', 'noopener,noreferrer');
+        if (id) sendToApp({ jsonrpc: '2.0', id, result: {} });
+        return;
+      }
+
+      // ui/message, ui/updateModelContext, logging — acknowledge
+      if (id) {
+        sendToApp({ jsonrpc: '2.0', id, result: {} });
+      }
+    }
+
+    function sendToApp(msg) {
+      frame.contentWindow.postMessage(msg, '*');
+    }
+  </script>
+</body>
+</html>`;
+}
@@ -3,56 +3,637 @@
  *
  * Architecture:
  * - Host page on PORT (e.g. 9271) — contains the outer sandbox iframe
- * - Sandbox page on PORT+1 (e.g. 9272) — different origin, loads app HTML in inner iframe
- * - WebSocket on PORT for pushing tool data and proxying callServerTool
+ * - Sandbox page on PORT+1 (e.g. 9272) — different origin, loads app HTML in inner iframe;
+ *   served per session with the CSP its UI resource declares (see csp.ts), and
+ *   violations are reported to /csp-report
+ * - WebSocket on PORT for pushing tool data and relaying what apps ask their
+ *   server (tools/call, resources/read, prompts/get...); only the host page's
+ *   own origin may connect, with the session's random ID, and only to use the
+ *   tools and methods the session allows
+ * - /oauth/callback on PORT receives OAuth redirects for authenticated upstreams
+ * - /elicit/:id on PORT shows elicitation forms the MCP client cannot show itself
+ * - / on PORT is a dashboard of app sessions (backed by /api/sessions), which
+ *   can optionally be persisted to disk
+ *
+ * One shim instance per machine runs these servers (the "viewer"). When the
+ * preferred port is already served by a shim viewer, later instances register
+ * their sessions with it over the /control WebSocket instead (see
+ * viewer-client.ts), so every app opens on one origin. If the port is taken by
+ * something else, the viewer moves to free ports.
+ *
+ * In remote mode (a public URL is configured) PORT alone serves everything:
+ * the sandbox is mounted under /sandbox, or answers requests for its own host
+ * name, and URLs are built from the public URL.
  */
 
 import express from "express";
-import { createServer, type Server } from "node:http";
-import { WebSocketServer, WebSocket } from "ws";
-import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
-import open from "open";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-function log(...args: unknown[]) {
-  process.stderr.write(`[app-host] ${args.map(a => typeof a === "string" ? a : JSON.stringify(a)).join(" ")}\n`);
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { randomBytes, randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { networkInterfaces } from "node:os";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  ErrorCode,
+  type ElicitRequestFormParams,
+  type ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "./log.js";
+import { openBrowser } from "./browser.js";
+import type { BrowserConfig, SessionsConfig } from "./config.js";
+import type { OAuthCallbackHost } from "./oauth.js";
+import { connectToViewer } from "./viewer-client.js";
+import { getElicitationPageHtml } from "./elicitation-page.js";
+import { getDashboardPageHtml, type SessionSummary } from "./dashboard-page.js";
+import { createSessionStore, type SessionStore } from "./session-store.js";
+import { buildCsp, permissionsAllowList } from "./csp.js";
+import {
+  VIEWER_PROTOCOL_VERSION,
+  APP_REQUEST_METHODS,
+  parseAppMessage,
+  parseAppRequest,
+  relayAppRequest,
+  rpcError,
+  toRpcError,
+  type AppUpstream,
+  type AppMessage,
+  type AppReply,
+  type AppRequest,
+  type RpcError,
+  type ToolCallUpdate,
+  type AppSessionState,
+  type AppView,
+  type ControlEvent,
+  type ControlRequest,
+  type ViewerInfo,
+} from "./viewer-protocol.js";
+import type { ToolCallOptions, UpstreamStatus } from "./upstream.js";
+
+export type { AppUpstream } from "./viewer-protocol.js";
+
+const log = createLogger("app-host");
+
+const DEFAULT_HOST_PORT = 9271;
+const DEFAULT_SANDBOX_PORT = 9272;
+const DEFAULT_BIND_ADDRESS = "127.0.0.1";
+const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+const WILDCARD_ADDRESSES = new Set(["0.0.0.0", "::"]);
+const TOKEN_COOKIE = "mcp-app-shim-token";
+/** How long apps get to save their state (ui/resource-teardown) when their shim shuts down. */
+const TEARDOWN_TIMEOUT_MS = 3000;
+
+export interface AppHostServer extends OAuthCallbackHost {
+  readonly hostPort: number;
+  readonly sandboxPort: number;
+  /**
+   * Opens the app in the browser and returns its URL. If a tab is still open on
+   * an earlier session with the same `reuseKey` (scoped to this instance), that
+   * tab is updated instead and no new one is opened. A view without a tool
+   * result shows the call as running until {@link updateToolCall} ends it.
+   */
+  serveApp(view: AppView, upstream: AppUpstream, reuseKey?: string): Promise<ServedApp>;
+  /** Passes on the progress and outcome of the call `serveApp` returned `callId` for. */
+  updateToolCall(sessionId: string, callId: string, update: ToolCallUpdate): void;
+  /** Tells the upstream's open apps that it is reconnecting or back. */
+  updateUpstreamStatus(upstream: AppUpstream): void;
+  /** Shows the form in the browser and resolves with the user's answer. */
+  elicit(params: ElicitRequestFormParams, signal: AbortSignal): Promise<ElicitResult>;
+  /** This instance's app sessions, oldest first. */
+  listSessions(): Promise<AppSessionState[]>;
+  /** Closes the session's open tabs; false if this instance has no such session. */
+  closeSession(sessionId: string): Promise<boolean>;
+  /** Opens the session in the browser again and returns its URL; undefined if this instance has no such session. */
+  reopenSession(sessionId: string): Promise<string | undefined>;
+  /** Lets this instance's open apps save their state, then stops serving them. */
+  close(): Promise<void>;
+}
+
+export interface ServedApp {
+  sessionId: string;
+  url: string;
+  /** The tool call the session shows; a reused tab moves on to a new one. */
+  callId: string;
+}
+
+/** This instance's own viewer, or a connection to another instance's. */
+export interface ViewerBackend extends AppHostServer {
+  /** False once a shared viewer has gone away; a new one must be elected. */
+  readonly alive: boolean;
 }
 
-export interface AppHostServer {
-  hostPort: number;
-  sandboxPort: number;
-  serveApp(html: string, toolInput: Record<string, unknown>, toolResult: CallToolResult): Promise<string>;
-  close(): void;
+export interface AppHostOptions {
+  /** Preferred host page + WebSocket port (default 9271). */
+  hostPort?: number;
+  /** Preferred sandbox origin port (default 9272). */
+  sandboxPort?: number;
+  /** Interface to listen on (default 127.0.0.1); beyond loopback, the dashboard needs a token. */
+  bindAddress?: string;
+  /**
+   * Remote mode: the URL browsers reach the host port at. Everything is then
+   * served on that one port, and the dashboard needs a token.
+   */
+  publicUrl?: string;
+  /** Remote mode: the sandbox's own URL on another host name (default `<publicUrl>/sandbox`). */
+  sandboxUrl?: string;
+  /** Register sessions with another instance's viewer on hostPort (default true). */
+  share?: boolean;
+  browser?: BrowserConfig;
+  /** Persistence of app sessions; only used by the instance that runs the viewer. */
+  sessions?: SessionsConfig;
+  /** Called with what this instance's apps tell the model. */
+  onAppMessage?(sessionId: string, message: AppMessage): void;
+  /** Called when one of this instance's sessions is deleted or goes with its viewer. */
+  onSessionEnded?(sessionId: string): void;
 }
 
-interface PendingApp {
-  html: string;
-  toolInput: Record<string, unknown>;
-  toolResult: CallToolResult;
+interface AppSession extends AppView {
+  /** ISO timestamp of the tool call. */
+  createdAt: string;
+  callId: string;
+  /** Sends the app's request to the upstream that produced it. */
+  request(request: AppRequest, options: ToolCallOptions): Promise<AppReply>;
+  /** Passes on what the app told the model to the instance that opened it. */
+  report(sessionId: string, message: AppMessage): void;
+  /** Tells the instance that opened the session that it was deleted. */
+  reportEnded(sessionId: string): void;
+  /** Counts a copy of the session among the sessions of the instance that opened it. */
+  adopt(sessionId: string): void;
+  /** Set for this instance's own sessions. */
+  upstream?: AppUpstream;
+  upstreamName: string;
+  upstreamStatus: UpstreamStatus;
+  /** Open host pages showing this session. */
+  sockets: Set<WebSocket>;
+}
+
+interface OAuthWaiter {
+  resolve(code: string): void;
+  reject(err: Error): void;
+}
+
+interface PendingCall {
+  resolve(reply: AppReply): void;
+  onprogress?: ToolCallOptions["onprogress"];
+}
+
+interface PendingElicitation {
+  params: ElicitRequestFormParams;
+  settle(result: ElicitResult): void;
+}
+
+/**
+ * Starts (or joins) the viewer. The returned server re-elects a viewer if the
+ * shared one it registered with goes away.
+ */
+export async function startAppHostServer(options: AppHostOptions = {}): Promise<AppHostServer> {
+  const { browser = {} } = options;
+  let backend = await electViewer(options);
+
+  async function current(): Promise<AppHostServer> {
+    if (!backend.alive) backend = await electViewer(options);
+    return backend;
+  }
+
+  return {
+    get hostPort() { return backend.hostPort; },
+    get sandboxPort() { return backend.sandboxPort; },
+    get oauthRedirectUrl() { return backend.oauthRedirectUrl; },
+    async waitForOAuthCallback(state, timeoutMs) {
+      return (await current()).waitForOAuthCallback(state, timeoutMs);
+    },
+    async openUrl(url) {
+      await openBrowser(url, browser);
+    },
+    async serveApp(view, upstream, reuseKey) {
+      return (await current()).serveApp(view, upstream, reuseKey);
+    },
+    updateUpstreamStatus(upstream) {
+      backend.updateUpstreamStatus(upstream);
+    },
+    updateToolCall(sessionId, callId, update) {
+      backend.updateToolCall(sessionId, callId, update);
+    },
+    async elicit(params, signal) {
+      return (await current()).elicit(params, signal);
+    },
+    async listSessions() {
+      return (await current()).listSessions();
+    },
+    async closeSession(sessionId) {
+      return (await current()).closeSession(sessionId);
+    },
+    async reopenSession(sessionId) {
+      return (await current()).reopenSession(sessionId);
+    },
+    close() {
+      return backend.close();
+    },
+  };
 }
 
-export async function startAppHostServer(upstream: Client): Promise<AppHostServer> {
-  const hostPort = 9271;
-  const sandboxPort = 9272;
+async function electViewer(options: AppHostOptions): Promise<ViewerBackend> {
+  const hostPort = options.hostPort ?? DEFAULT_HOST_PORT;
+  const sandboxPort = options.sandboxPort ?? DEFAULT_SANDBOX_PORT;
+
+  try {
+    return await startViewer(options, hostPort, sandboxPort);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") throw err;
+  }
 
-  // Track pending apps by session ID
-  const pendingApps = new Map<string, PendingApp>();
-  let sessionCounter = 0;
+  if (options.share !== false) {
+    const shared = await connectToViewer(hostPort, options.browser ?? {}, options.onAppMessage, options.onSessionEnded);
+    if (shared) return shared;
+  }
+
+  // Browsers reach a remote viewer through the port that is forwarded to it, and no other
+  if (options.publicUrl) throw new Error(`Port ${hostPort} is in use; ${options.publicUrl} cannot reach the viewer`);
+  log.warn(`Port ${hostPort} is in use; starting the viewer on free ports`);
+  return startViewer(options, 0, 0);
+}
+
+/**
+ * Validates a request from a session's host page against the session's
+ * permissions. Requests beyond them fail as if the tool or method did not exist.
+ */
+function checkAppRequest(session: AppView, raw: unknown): { request: AppRequest } | { error: RpcError } {
+  const parsed = parseAppRequest(raw);
+  if ("error" in parsed) return parsed;
+  const { request } = parsed;
+  if (request.method === "tools/call") {
+    const { name } = request.params;
+    return session.allowedTools?.includes(name)
+      ? parsed
+      : rpcError(ErrorCode.InvalidParams, `Tool not available to this app: ${name}`);
+  }
+  return session.allowedMethods?.includes(request.method)
+    ? parsed
+    : rpcError(ErrorCode.MethodNotFound, `Method not available to this app: ${request.method}`);
+}
+
+function isLoopback(address: string | undefined): boolean {
+  return address === "127.0.0.1" || address === "::1" || address === "::ffff:127.0.0.1";
+}
+
+/** The host name a request is addressed to, from its Host header. */
+function requestHostname(host: string | undefined): string | undefined {
+  if (!host) return undefined;
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+function listen(server: Server, port: number, bindAddress: string | undefined): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, bindAddress, () => {
+      server.off("error", reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+async function startViewer(
+  options: AppHostOptions,
+  preferredHostPort: number,
+  preferredSandboxPort: number,
+): Promise<ViewerBackend> {
+  const { bindAddress = DEFAULT_BIND_ADDRESS, browser = {} } = options;
+  const publicUrl = options.publicUrl && new URL(options.publicUrl).origin;
+  const sandboxUrl = options.sandboxUrl && new URL(options.sandboxUrl).origin;
+
+  // Track app sessions by session ID. The ID is what lets a page drive the
+  // session's app (and its tool calls), so it must not be guessable.
+  const sessions = new Map<string, AppSession>();
+  // Session IDs by reuse key, namespaced per shim instance
+  const reusable = new Map<string, string>();
+  // Sessions this instance opened itself
+  const localSessions = new Set<string>();
+  // Host pages tearing down their app, each finished by teardown-complete or closing
+  const teardowns = new Map<WebSocket, () => void>();
+  let controlCounter = 0;
+  let toolCallCounter = 0;
+  const store = options.sessions?.persist ? createSessionStore(options.sessions.dir) : undefined;
+  // Store writes run one at a time, so a delete cannot overtake the save before it
+  let storeWrites = Promise.resolve();
+  const writeStore = (write: (store: SessionStore) => Promise<void>, failure: string) => {
+    if (!store) return storeWrites;
+    storeWrites = storeWrites.then(() => write(store)).catch((err) => log.warn(failure, err));
+    return storeWrites;
+  };
+
+  // OAuth authorizations in flight, by their `state` parameter
+  const oauthWaiters = new Map<string, OAuthWaiter>();
+
+  // Unanswered elicitation forms, by unguessable ID
+  const elicitations = new Map<string, PendingElicitation>();
 
   // === Host server (serves host page + WebSocket) ===
   const hostApp = express();
   const hostServer = createServer(hostApp);
 
-  // WebSocket server for real-time communication with host page
-  const wss = new WebSocketServer({ server: hostServer });
+  // === Sandbox server (different origin for security) ===
+  // In remote mode the host server serves it too, under /sandbox or for
+  // requests to the sandbox's own host name
+  const sandboxApp = express();
+  const sandboxServer = publicUrl ? undefined : createServer(sandboxApp);
+
+  // Bind first: ports are only known once listening, and a busy host port
+  // must fail before anything else is set up
+  const hostPort = await listen(hostServer, preferredHostPort, bindAddress);
+  let sandboxPort = hostPort;
+  if (sandboxServer) {
+    try {
+      sandboxPort = await listen(sandboxServer, preferredSandboxPort, bindAddress);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") throw err;
+      log.warn(`Sandbox port ${preferredSandboxPort} is in use; using a free port`);
+      sandboxPort = await listen(sandboxServer, 0, bindAddress);
+    }
+  }
+
+  // Where browsers find the host page and the sandbox
+  const hostBase = publicUrl ?? `http://localhost:${hostPort}`;
+  const sandboxBase = sandboxUrl ?? (publicUrl ? `${publicUrl}/sandbox` : `http://localhost:${sandboxPort}`);
+  // Under /sandbox the sandbox shares the host page's origin, so the browser has
+  // to give it an opaque origin of its own
+  const sandboxSharesOrigin = Boolean(publicUrl && !sandboxUrl);
+  const sandboxHostname = sandboxUrl && new URL(sandboxUrl).hostname;
+  if (sandboxSharesOrigin) hostApp.use("/sandbox", sandboxApp);
+  else if (sandboxHostname) {
+    hostApp.use((req, res, next) => (requestHostname(req.headers.host) === sandboxHostname ? sandboxApp(req, res, next) : next()));
+  }
+
+  // Other web pages must not drive the viewer: requests have to name it by an
+  // address it listens on (which defeats DNS rebinding), and browsers may only
+  // connect or post from the host page's own origin
+  const anyHost = WILDCARD_ADDRESSES.has(bindAddress);
+  if (anyHost) log.warn(`The viewer listens on ${bindAddress}; app sessions are reachable from the network`);
+  const ownHostnames = new Set([...LOOPBACK_HOSTNAMES, bindAddress]);
+  if (publicUrl) ownHostnames.add(new URL(publicUrl).hostname);
+  // On every interface, pages may come from any of this machine's addresses
+  if (anyHost) {
+    for (const info of Object.values(networkInterfaces()).flat()) {
+      if (info) ownHostnames.add(info.family === "IPv6" ? `[${info.address}]` : info.address);
+    }
+  }
+
+  function isOwnHostname(host: string | undefined): boolean {
+    const hostname = requestHostname(host);
+    return hostname !== undefined && ownHostnames.has(hostname);
+  }
+
+  /** Host names that reach a wildcard address cannot be known, so any is accepted there. */
+  function isOwnHost(host: string | undefined): boolean {
+    return anyHost || isOwnHostname(host);
+  }
+
+  /**
+   * Requests without an Origin do not come from a web page. Origins are held
+   * to the known host names even on a wildcard address, so other sites stay out.
+   */
+  function isOwnOrigin(origin: string | undefined): boolean {
+    if (origin === undefined || origin === publicUrl) return true;
+    try {
+      const url = new URL(origin);
+      return url.protocol === "http:" && Number(url.port) === hostPort && isOwnHostname(url.host);
+    } catch {
+      return false;
+    }
+  }
+
+  hostApp.use((req, res, next) => {
+    const crossSite = req.method !== "GET" && req.method !== "HEAD" && !isOwnOrigin(req.headers.origin);
+    if (!isOwnHost(req.headers.host) || crossSite) {
+      log.warn(`Rejected ${req.method} ${req.path} from ${req.headers.origin ?? req.headers.host}`);
+      res.status(403).end();
+      return;
+    }
+    next();
+  });
+
+  // Sessions from an earlier run can be viewed, but nothing is connected to run their tool calls
+  for (const stored of await store?.load() ?? []) {
+    const { id, ...session } = stored;
+    const { upstreamName } = session;
+    sessions.set(id, {
+      ...session,
+      // A call still running then never finished
+      toolCancelReason: session.toolResult || session.toolCancelReason
+        ? session.toolCancelReason
+        : "The shim exited before the tool call finished",
+      callId: "restored",
+      upstreamStatus: "closed",
+      request: async () => rpcError(
+        ErrorCode.InternalError,
+        `This app was restored from an earlier run; ${upstreamName} is not connected to it`,
+      ),
+      report: () => {},
+      reportEnded: () => {},
+      adopt: () => {},
+      sockets: new Set(),
+    });
+  }
+  if (sessions.size > 0) log(`Restored ${sessions.size} app session(s)`);
+
+  function addSession(session: Omit<AppSession, "sockets" | "createdAt" | "callId">): string {
+    const sessionId = randomBytes(16).toString("hex");
+    const createdAt = new Date().toISOString();
+    const added = { ...session, createdAt, callId: String(++toolCallCounter), sockets: new Set<WebSocket>() };
+    sessions.set(sessionId, added);
+    saveSession(sessionId, added);
+    return sessionId;
+  }
+
+  function saveSession(id: string, session: AppSession) {
+    const { toolName, html, toolInput, toolResult, toolCancelReason, csp, permissions, upstreamName, createdAt } = session;
+    writeStore(
+      (store) => store.save({
+        id, toolName, html, toolInput, toolResult, toolCancelReason, csp, permissions, upstreamName, createdAt,
+      }),
+      "Could not save app session:",
+    );
+  }
+
+  /** Updates the open tabs of the session `reuseKey` points to, else adds a new session. */
+  function openSession(
+    session: Omit<AppSession, "sockets" | "createdAt" | "callId">,
+    reuseKey: string | undefined,
+  ): { sessionId: string; callId: string; reused: boolean } {
+    const existingId = reuseKey === undefined ? undefined : reusable.get(reuseKey);
+    const existing = existingId === undefined ? undefined : sessions.get(existingId);
+    if (!existingId || !existing || existing.sockets.size === 0) {
+      const sessionId = addSession(session);
+      if (reuseKey !== undefined) reusable.set(reuseKey, sessionId);
+      return { sessionId, callId: sessions.get(sessionId)!.callId, reused: false };
+    }
+
+    // Same app: push the new tool call into it. Another app (or policy): reload the tab.
+    const policy = (s: AppView) => JSON.stringify([s.csp, s.permissions]);
+    const reload = existing.html !== session.html || policy(existing) !== policy(session);
+    Object.assign(
+      existing,
+      { csp: undefined, permissions: undefined, toolResult: undefined, toolCancelReason: undefined },
+      session,
+      { createdAt: new Date().toISOString(), callId: String(++toolCallCounter) },
+    );
+    saveSession(existingId, existing);
+    const { toolInput, toolResult, toolCancelReason } = existing;
+    const message = JSON.stringify(reload
+      ? appDataMessage(existingId, existing)
+      : { type: "tool-call", toolInput, toolResult, toolCancelReason });
+    for (const socket of existing.sockets) socket.send(message);
+    log("Reused open tab for session:", existingId);
+    return { sessionId: existingId, callId: existing.callId, reused: true };
+  }
+
+  function updateToolCall(sessionId: string, callId: string, update: ToolCallUpdate) {
+    const session = sessions.get(sessionId);
+    // A reused tab may have moved on to a newer call
+    if (!session || session.callId !== callId) return;
+    if (update.type === "result") session.toolResult = update.result;
+    if (update.type === "cancelled") session.toolCancelReason = update.reason;
+    if (update.type !== "progress") saveSession(sessionId, session);
+    const message = JSON.stringify({ type: "tool-call-update", update });
+    for (const socket of session.sockets) socket.send(message);
+  }
+
+  function appDataMessage(sessionId: string, session: AppSession) {
+    return {
+      type: "app-data",
+      html: session.html,
+      toolName: session.toolName,
+      toolInput: session.toolInput,
+      toolResult: session.toolResult,
+      toolCancelReason: session.toolCancelReason,
+      // The sandbox page carries the session's CSP; the frame must also delegate its permissions
+      sandboxUrl: `${sandboxBase}/sandbox.html?session=${encodeURIComponent(sessionId)}`,
+      allow: permissionsAllowList(session.permissions),
+      // What the host page may advertise to the app in hostCapabilities
+      serverMethods: [...(session.allowedTools?.length ? ["tools/call"] : []), ...(session.allowedMethods ?? [])],
+    };
+  }
+
+  function deleteSession(sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) return Promise.resolve();
+    sessions.delete(sessionId);
+    closeTabs(session);
+    session.reportEnded(sessionId);
+    return writeStore((store) => store.remove(sessionId), "Could not delete app session:");
+  }
+
+  /**
+   * Has the host pages showing `targets` send their apps ui/resource-teardown,
+   * and waits for them to finish (their tool calls still work meanwhile) for a
+   * bounded time.
+   */
+  async function teardownTabs(targets: Iterable<AppSession>): Promise<void> {
+    const sockets = [...targets].flatMap(session => [...session.sockets]);
+    await Promise.all(sockets.map(socket => new Promise<void>((resolve) => {
+      const timer = setTimeout(finish, TEARDOWN_TIMEOUT_MS);
+      function finish() {
+        clearTimeout(timer);
+        teardowns.delete(socket);
+        resolve();
+      }
+      teardowns.set(socket, finish);
+      socket.send(JSON.stringify({ type: "teardown" }));
+    })));
+  }
+
+  function closeTabs(session: AppSession) {
+    for (const socket of session.sockets) {
+      socket.send(JSON.stringify({ type: "session-closed" }));
+      socket.close();
+    }
+  }
+
+  /** States of the sessions among `ids` that still exist. */
+  function sessionStates(ids: Iterable<string>): AppSessionState[] {
+    return [...ids].flatMap((sessionId) => {
+      const session = sessions.get(sessionId);
+      if (!session) return [];
+      const { toolName, toolInput, toolResult, toolCancelReason, upstreamName, upstreamStatus, createdAt, sockets } = session;
+      return [{
+        sessionId,
+        url: appUrl(sessionId),
+        toolName,
+        toolInput,
+        toolResult,
+        toolCancelReason,
+        upstream: upstreamName,
+        upstreamStatus,
+        createdAt,
+        openTabs: sockets.size,
+      }];
+    });
+  }
+
+  function setSessionStatus(session: AppSession, status: UpstreamStatus) {
+    session.upstreamStatus = status;
+    const message = JSON.stringify({ type: "upstream-status", upstream: session.upstreamName, status });
+    for (const socket of session.sockets) socket.send(message);
+  }
+
+  function appUrl(sessionId: string): string {
+    return `${hostBase}/app/${sessionId}`;
+  }
+
+  function addElicitation(params: ElicitRequestFormParams, settle: (result: ElicitResult) => void): string {
+    const id = randomUUID();
+    elicitations.set(id, {
+      params,
+      settle: (result) => {
+        elicitations.delete(id);
+        settle(result);
+      },
+    });
+    return id;
+  }
+
+  function elicitationUrl(id: string): string {
+    return `${hostBase}/elicit/${id}`;
+  }
+
+  function waitForOAuthCallback(state: string, timeoutMs: number): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        oauthWaiters.delete(state);
+        reject(new Error("Timed out waiting for OAuth authorization"));
+      }, timeoutMs);
+      oauthWaiters.set(state, {
+        resolve: (code) => { clearTimeout(timer); resolve(code); },
+        reject: (err) => { clearTimeout(timer); reject(err); },
+      });
+    });
+  }
+
+  // WebSocket server for real-time communication with host pages and other
+  // shim instances. Browsers always send an Origin header and other shim
+  // instances do not, so /control is closed to web pages entirely.
+  const wss = new WebSocketServer({
+    server: hostServer,
+    verifyClient: ({ origin, req }: { origin?: string; req: IncomingMessage }) => {
+      // Only processes on this machine share the viewer, even when it listens on the network
+      const control = req.url?.split("?")[0] === "/control";
+      const allowed = control
+        ? origin === undefined && isLoopback(req.socket.remoteAddress)
+        : isOwnOrigin(origin);
+      if (isOwnHost(req.headers.host) && allowed) return true;
+      log.warn(`Rejected WebSocket connection to ${req.url} from ${origin ?? req.headers.host}`);
+      return false;
+    },
+  });
 
   wss.on("connection", (ws, req) => {
     const url = new URL(req.url!, `http://localhost:${hostPort}`);
+    if (url.pathname === "/control") {
+      handleControlConnection(ws);
+      return;
+    }
+
     const sessionId = url.searchParams.get("session");
     if (!sessionId) {
       ws.close();
@@ -60,36 +641,64 @@ export async function startAppHostServer(upstream: Client): Promise<AppHostServe
     }
 
     log("WebSocket connected for session:", sessionId);
-    const pending = pendingApps.get(sessionId);
-    if (!pending) {
+    const session = sessions.get(sessionId);
+    if (!session) {
       ws.close();
       return;
     }
 
     // Send the app data to the browser
-    ws.send(JSON.stringify({
-      type: "app-data",
-      html: pending.html,
-      toolInput: pending.toolInput,
-      toolResult: pending.toolResult,
-      sandboxUrl: `http://localhost:${sandboxPort}/sandbox.html`,
-    }));
+    ws.send(JSON.stringify(appDataMessage(sessionId, session)));
+    if (session.upstreamStatus !== "connected") {
+      ws.send(JSON.stringify({ type: "upstream-status", upstream: session.upstreamName, status: session.upstreamStatus }));
+    }
+    // App requests in flight from this page, cancelled if it goes away
+    const calls = new Map<string, AbortController>();
+    session.sockets.add(ws);
+    ws.on("close", () => {
+      session.sockets.delete(ws);
+      teardowns.get(ws)?.();
+      for (const controller of calls.values()) controller.abort();
+    });
 
-    // Handle messages from the browser (callServerTool proxying)
+    // Handle messages from the browser (requests the app sends its server)
     ws.on("message", async (data) => {
       try {
         const msg = JSON.parse(data.toString());
-        if (msg.type === "call-server-tool") {
-          log("Proxying callServerTool:", msg.name);
-          const result = await upstream.callTool({
-            name: msg.name,
-            arguments: msg.arguments,
-          });
-          ws.send(JSON.stringify({
-            type: "tool-result",
-            requestId: msg.requestId,
-            result,
-          }));
+        if (msg.type === "app-request") {
+          const { requestId } = msg;
+          const checked = checkAppRequest(session, msg.request);
+          if ("error" in checked) {
+            log.warn(`Session ${sessionId} request rejected: ${checked.error.message}`);
+            ws.send(JSON.stringify({ type: "app-response", requestId, error: checked.error }));
+            return;
+          }
+          const { request } = checked;
+          const controller = new AbortController();
+          calls.set(requestId, controller);
+          let reply: AppReply;
+          try {
+            reply = await session.request(request, {
+              signal: controller.signal,
+              onprogress: (progress) => {
+                if (ws.readyState === ws.OPEN) ws.send(JSON.stringify({ type: "tool-progress", requestId, progress }));
+              },
+            });
+          } catch (err) {
+            reply = toRpcError(err);
+          }
+          calls.delete(requestId);
+          if (controller.signal.aborted || ws.readyState !== ws.OPEN) return;
+          ws.send(JSON.stringify({ type: "app-response", requestId, ...reply }));
+        } else if (msg.type === "cancel-app-request") {
+          calls.get(msg.requestId)?.abort();
+          calls.delete(msg.requestId);
+        } else if (msg.type === "app-message") {
+          const message = parseAppMessage(msg.message);
+          if (message) session.report(sessionId, message);
+          else log.warn("Ignoring malformed app message:", msg.message?.method);
+        } else if (msg.type === "teardown-complete") {
+          teardowns.get(ws)?.();
         }
       } catch (err) {
         log("WebSocket message error:", err);
@@ -97,58 +706,382 @@ export async function startAppHostServer(upstream: Client): Promise<AppHostServe
     });
   });
 
+  // Another shim instance sharing this viewer: its sessions' tool calls and
+  // OAuth callbacks are forwarded to it
+  function handleControlConnection(ws: WebSocket) {
+    log("Shim instance connected to shared viewer");
+    let connected = true;
+    let callCounter = 0;
+    const pendingCalls = new Map<string, PendingCall>();
+    // Elicitation IDs on this viewer, by the instance's request ID
+    const elicitationIds = new Map<string, string>();
+    const registered = new Set<string>();
+    const instance = `instance-${++controlCounter}`;
+
+    function send(event: ControlEvent) {
+      if (connected) ws.send(JSON.stringify(event));
+    }
+
+    ws.on("message", (data) => {
+      let msg: ControlRequest;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+
+      switch (msg.type) {
+        case "register-session": {
+          const reuseKey = msg.reuseKey === undefined ? undefined : `${instance}:${msg.reuseKey}`;
+          const { sessionId, callId, reused } = openSession({
+            ...msg.view,
+            upstreamName: msg.upstream,
+            upstreamStatus: "connected",
+            request: (request, { signal, onprogress }) => new Promise((resolve) => {
+              if (!connected) {
+                resolve(rpcError(ErrorCode.InternalError, "The shim instance that opened this app has exited"));
+                return;
+              }
+              const requestId = String(++callCounter);
+              pendingCalls.set(requestId, { resolve, onprogress });
+              signal?.addEventListener("abort", () => {
+                if (!pendingCalls.delete(requestId)) return;
+                send({ type: "cancel-app-request", requestId });
+                resolve(rpcError(ErrorCode.RequestTimeout, "Cancelled"));
+              }, { once: true });
+              send({ type: "app-request", requestId, sessionId, request });
+            }),
+            report: (sessionId, message) => send({ type: "app-message", sessionId, message }),
+            reportEnded: (sessionId) => {
+              if (registered.delete(sessionId)) send({ type: "session-ended", sessionId });
+            },
+            adopt: (copyId) => registered.add(copyId),
+          }, reuseKey);
+          registered.add(sessionId);
+          send({ type: "session-registered", requestId: msg.requestId, sessionId, url: appUrl(sessionId), callId, reused });
+          break;
+        }
+        case "tool-call-update": {
+          if (registered.has(msg.sessionId)) updateToolCall(msg.sessionId, msg.callId, msg.update);
+          break;
+        }
+        case "await-oauth": {
+          const { state } = msg;
+          waitForOAuthCallback(state, msg.timeoutMs).then(
+            (code) => send({ type: "oauth-callback", state, code }),
+            (err: Error) => send({ type: "oauth-callback", state, error: err.message }),
+          );
+          break;
+        }
+        case "app-response": {
+          const { result, error } = msg;
+          pendingCalls.get(msg.requestId)?.resolve(error ? { error } : { result: result! });
+          pendingCalls.delete(msg.requestId);
+          break;
+        }
+        case "tool-progress": {
+          pendingCalls.get(msg.requestId)?.onprogress?.(msg.progress);
+          break;
+        }
+        case "session-status": {
+          const session = sessions.get(msg.sessionId);
+          if (session) setSessionStatus(session, msg.status);
+          break;
+        }
+        case "elicit": {
+          const { requestId } = msg;
+          const id = addElicitation(msg.params, (result) => {
+            elicitationIds.delete(requestId);
+            send({ type: "elicitation-result", requestId, result });
+          });
+          elicitationIds.set(requestId, id);
+          send({ type: "elicitation-opened", requestId, url: elicitationUrl(id) });
+          break;
+        }
+        case "cancel-elicitation": {
+          elicitations.delete(elicitationIds.get(msg.requestId) ?? "");
+          elicitationIds.delete(msg.requestId);
+          break;
+        }
+        case "list-sessions": {
+          send({ type: "session-list", requestId: msg.requestId, sessions: sessionStates(registered) });
+          break;
+        }
+        case "close-session": {
+          const session = registered.has(msg.sessionId) ? sessions.get(msg.sessionId) : undefined;
+          if (session) closeTabs(session);
+          send({ type: "session-closed", requestId: msg.requestId, closed: Boolean(session) });
+          break;
+        }
+        case "teardown-sessions": {
+          const { requestId } = msg;
+          const targets = [...registered].flatMap(id => sessions.get(id) ?? []);
+          void teardownTabs(targets).then(() => send({ type: "sessions-torn-down", requestId }));
+          break;
+        }
+      }
+    });
+
+    ws.on("close", () => {
+      connected = false;
+      log("Shim instance disconnected from shared viewer");
+      for (const { resolve } of pendingCalls.values()) {
+        resolve(rpcError(ErrorCode.InternalError, "The shim instance that opened this app has exited"));
+      }
+      pendingCalls.clear();
+      for (const id of elicitationIds.values()) elicitations.delete(id);
+      elicitationIds.clear();
+      for (const sessionId of registered) {
+        const session = sessions.get(sessionId);
+        if (session) setSessionStatus(session, "closed");
+      }
+    });
+  }
+
+  // Lets other shim instances recognise this viewer
+  hostApp.get("/shim/info", (_req, res) => {
+    const info: ViewerInfo = { app: "mcp-app-shim", protocol: VIEWER_PROTOCOL_VERSION, hostPort, sandboxPort, publicUrl };
+    res.json(info);
+  });
+
+  // Remotely, or when listening beyond loopback, anyone who can reach the port
+  // could list every session's URL (and with it drive the session's tool calls),
+  // so the dashboard needs the token from the log; its link leaves a cookie behind
+  const onLoopback = LOOPBACK_HOSTNAMES.has(bindAddress) || isLoopback(bindAddress);
+  const dashboardToken = publicUrl || !onLoopback ? randomBytes(16).toString("hex") : undefined;
+  const requireDashboardToken: express.RequestHandler = (req, res, next) => {
+    if (!dashboardToken || req.headers.cookie?.split(/;\s*/).includes(`${TOKEN_COOKIE}=${dashboardToken}`)) {
+      next();
+    } else if (req.method === "GET" && req.path === "/" && req.query.token === dashboardToken) {
+      res.cookie(TOKEN_COOKIE, dashboardToken, { httpOnly: true, sameSite: "strict", secure: hostBase.startsWith("https:") });
+      res.redirect("/");
+    } else {
+      res.status(403).send("Open the dashboard with the link in the shim's log");
+    }
+  };
+  hostApp.use("/api", requireDashboardToken);
+
+  hostApp.get("/", requireDashboardToken, (_req, res) => {
+    res.setHeader("Content-Type", "text/html");
+    res.send(getDashboardPageHtml());
+  });
+
+  hostApp.get("/api/sessions", (_req, res) => {
+    const summaries: SessionSummary[] = [...sessions].map(([id, session]) => ({
+      id,
+      url: appUrl(id),
+      toolName: session.toolName,
+      toolInput: session.toolInput,
+      upstream: session.upstreamName,
+      status: session.upstreamStatus,
+      createdAt: session.createdAt,
+      viewers: session.sockets.size,
+    }));
+    summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    res.json({ sessions: summaries });
+  });
+
+  // A copy to try things in; tool calls still go to the original's upstream
+  hostApp.post("/api/sessions/:id/duplicate", (req, res) => {
+    const original = sessions.get(req.params.id);
+    if (!original) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    const { sockets: _sockets, createdAt: _createdAt, ...session } = original;
+    const id = addSession(session);
+    // The copy belongs to the same instance, which can then list, close and reopen it
+    original.adopt(id);
+    res.json({ id, url: appUrl(id) });
+  });
+
+  hostApp.delete("/api/sessions/:id", async (req, res) => {
+    if (!sessions.has(req.params.id)) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    await deleteSession(req.params.id);
+    res.json({});
+  });
+
   // Serve the host page
   hostApp.get("/app/:sessionId", (_req, res) => {
     res.setHeader("Content-Type", "text/html");
-    res.send(getHostPageHtml(hostPort, sandboxPort));
+    res.send(getHostPageHtml());
   });
 
-  // === Sandbox server (different origin for security) ===
-  const sandboxApp = express();
-  const sandboxServer = createServer(sandboxApp);
+  // OAuth redirect target for upstream authorization
+  hostApp.get("/oauth/callback", (req, res) => {
+    const state = String(req.query.state ?? "");
+    const waiter = oauthWaiters.get(state);
+    res.setHeader("Content-Type", "text/html");
+    if (!waiter) {
+      res.status(400).send(getOAuthResultHtml("Unknown or expired authorization request."));
+      return;
+    }
+    oauthWaiters.delete(state);
 
-  sandboxApp.get("/sandbox.html", (_req, res) => {
+    const { code, error, error_description: description } = req.query;
+    if (typeof code === "string" && code) {
+      waiter.resolve(code);
+      res.send(getOAuthResultHtml("Authorization complete. You can close this tab."));
+    } else {
+      const message = `Authorization failed: ${description ?? error ?? "no code returned"}`;
+      waiter.reject(new Error(message));
+      res.status(400).send(getOAuthResultHtml(message));
+    }
+  });
+
+  hostApp.get("/elicit/:id", (req, res) => {
+    const pending = elicitations.get(req.params.id);
     res.setHeader("Content-Type", "text/html");
-    res.setHeader("Content-Security-Policy",
-      "default-src 'self' 'unsafe-inline'; " +
-      "script-src 'self' 'unsafe-inline' 'unsafe-eval' blob: data: https: http:; " +
-      "style-src 'self' 'unsafe-inline' blob: data: https: http:; " +
-      "img-src 'self' data: blob: https: http:; " +
-      "font-src 'self' data: blob: https: http:; " +
-      "connect-src 'self' https: http: ws: wss:; " +
-      "worker-src 'self' blob: https: http:; " +
-      "frame-src 'none'; " +
-      "object-src 'none'; " +
-      "base-uri 'none'"
-    );
-    res.send(getSandboxPageHtml());
+    if (!pending) {
+      res.status(404).send(getOAuthResultHtml("This request has expired."));
+      return;
+    }
+    res.send(getElicitationPageHtml(pending.params));
+  });
+
+  hostApp.post("/elicit/:id", express.json(), (req, res) => {
+    const pending = elicitations.get(req.params.id);
+    if (!pending) {
+      res.status(404).json({ error: "This request has expired" });
+      return;
+    }
+    const { action, content } = req.body ?? {};
+    if (action !== "accept" && action !== "decline" && action !== "cancel") {
+      res.status(400).json({ error: "Invalid action" });
+      return;
+    }
+    pending.settle(action === "accept" ? { action, content: content ?? {} } : { action });
+    res.json({});
   });
 
-  // Start both servers
-  await new Promise<void>((resolve) => hostServer.listen(hostPort, resolve));
-  await new Promise<void>((resolve) => sandboxServer.listen(sandboxPort, resolve));
-  log(`Host server: http://localhost:${hostPort}`);
-  log(`Sandbox server: http://localhost:${sandboxPort}`);
+  // Each session's sandbox gets the policy its UI resource declared
+  sandboxApp.get("/sandbox.html", (req, res) => {
+    const sessionId = typeof req.query.session === "string" ? req.query.session : "";
+    const session = sessions.get(sessionId);
+    // Relative, so reports reach this sandbox wherever it is mounted
+    const reportUri = `csp-report?session=${encodeURIComponent(sessionId)}`;
+    const policy = buildCsp(session?.csp, reportUri);
+    res.setHeader("Content-Type", "text/html");
+    res.setHeader("Content-Security-Policy", sandboxSharesOrigin ? `${policy}; sandbox allow-scripts allow-forms` : policy);
+    res.send(getSandboxPageHtml(permissionsAllowList(session?.permissions)));
+  });
+
+  sandboxApp.post(
+    "/csp-report",
+    express.json({ type: ["application/csp-report", "application/reports+json", "application/json"] }),
+    (req, res) => {
+      // report-uri sends one {"csp-report": {...}}; the Reporting API sends an array of {body}
+      const reports: unknown[] = Array.isArray(req.body) ? req.body.map((r) => r?.body) : [req.body?.["csp-report"]];
+      for (const report of reports) {
+        if (typeof report !== "object" || report === null) continue;
+        const r = report as Record<string, unknown>;
+        const directive = r["effective-directive"] ?? r["violated-directive"] ?? r.effectiveDirective;
+        const blocked = r["blocked-uri"] ?? r.blockedURL ?? "inline";
+        log.warn(`CSP violation in app session ${req.query.session}: ${directive} blocked ${blocked}`);
+      }
+      res.status(204).end();
+    },
+  );
+
+  log(`Host server: ${hostBase}`);
+  log(`Sandbox server: ${sandboxBase}`);
+  if (dashboardToken) log(`Session dashboard: ${hostBase}/?token=${dashboardToken}`);
 
   return {
     hostPort,
     sandboxPort,
-    async serveApp(html, toolInput, toolResult) {
-      const sessionId = String(++sessionCounter);
-      pendingApps.set(sessionId, { html, toolInput, toolResult });
+    alive: true,
+    oauthRedirectUrl: `${hostBase}/oauth/callback`,
+    waitForOAuthCallback,
+    async openUrl(url) {
+      await openBrowser(url, browser);
+    },
+    async serveApp(view, upstream, reuseKey) {
+      const { sessionId, callId, reused } = openSession({
+        ...view,
+        request: (request, requestOptions) => relayAppRequest(upstream, request, requestOptions),
+        report: (id, message) => options.onAppMessage?.(id, message),
+        reportEnded: (id) => {
+          if (localSessions.delete(id)) options.onSessionEnded?.(id);
+        },
+        adopt: (id) => localSessions.add(id),
+        upstream,
+        upstreamName: upstream.name,
+        upstreamStatus: upstream.status,
+      }, reuseKey === undefined ? undefined : `local:${reuseKey}`);
+      localSessions.add(sessionId);
 
-      const url = `http://localhost:${hostPort}/app/${sessionId}`;
-      await open(url);
+      const url = appUrl(sessionId);
+      if (!reused) await openBrowser(url, browser);
+      return { sessionId, url, callId };
+    },
+    updateToolCall(sessionId, callId, update) {
+      if (localSessions.has(sessionId)) updateToolCall(sessionId, callId, update);
+    },
+    updateUpstreamStatus(upstream) {
+      for (const session of sessions.values()) {
+        if (session.upstream === upstream) setSessionStatus(session, upstream.status);
+      }
+    },
+    elicit(params, signal) {
+      return new Promise<ElicitResult>((resolve, reject) => {
+        const id = addElicitation(params, resolve);
+        signal.addEventListener("abort", () => {
+          elicitations.delete(id);
+          reject(new Error("Elicitation cancelled"));
+        }, { once: true });
+        openBrowser(elicitationUrl(id), browser).catch((err) => log.error("Failed to open browser:", err));
+      });
+    },
+    async listSessions() {
+      return sessionStates(localSessions);
+    },
+    async closeSession(sessionId) {
+      const session = localSessions.has(sessionId) ? sessions.get(sessionId) : undefined;
+      if (session) closeTabs(session);
+      return Boolean(session);
+    },
+    async reopenSession(sessionId) {
+      if (!localSessions.has(sessionId) || !sessions.has(sessionId)) return undefined;
+      const url = appUrl(sessionId);
+      await openBrowser(url, browser);
       return url;
     },
-    close() {
+    async close() {
+      // Every app goes with the viewer, whichever instance opened it
+      await teardownTabs(sessions.values());
+      for (const sessionId of localSessions) options.onSessionEnded?.(sessionId);
+      localSessions.clear();
       hostServer.close();
-      sandboxServer.close();
+      sandboxServer?.close();
     },
   };
 }
 
-function getHostPageHtml(hostPort: number, sandboxPort: number): string {
+function getOAuthResultHtml(message: string): string {
+  const escaped = message.replace(/[&<>"]/g, c => `&#${c.charCodeAt(0)};`);
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>MCP App Shim</title></head>
+<body style="font-family: system-ui, sans-serif; padding: 32px;">${escaped}</body>
+</html>`;
+}
+
+/**
+ * How long an app's request to its server may go without a result or progress
+ * before the host page gives up on it.
+ */
+const REQUEST_TIMEOUT_MS = 10 * 60_000;
+/** How long the app has to send ui/initialize once its HTML is loaded. */
+const APP_INIT_TIMEOUT_MS = 15_000;
+/** Size of the picture-in-picture window, in CSS pixels. */
+const PIP_WIDTH = 400;
+const PIP_HEIGHT = 300;
+
+function getHostPageHtml(): string {
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -161,52 +1094,188 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
     body { display: flex; flex-direction: column; background: #f5f5f5; }
     @media (prefers-color-scheme: dark) { body { background: #1a1a2e; color: #eee; } }
     #status { padding: 8px 16px; font-size: 14px; color: #666; }
+    #error { display: flex; gap: 8px; align-items: flex-start; padding: 8px 16px; font-size: 14px;
+      background: #fdecea; color: #8a1c1c; border-bottom: 1px solid #f5c2c0; white-space: pre-wrap; }
+    #error[hidden] { display: none; }
+    #error span { flex: 1; }
+    #error button { border: none; background: none; color: inherit; font-size: 16px; cursor: pointer; }
     #sandbox-frame {
       flex: 1; width: 100%; border: none;
     }
+    /* Sizes the app asked for do not apply outside the page flow */
+    [data-display-mode=fullscreen] #sandbox-frame, [data-display-mode=pip] #sandbox-frame {
+      position: fixed; z-index: 10; min-width: 0 !important; background: Canvas; }
+    [data-display-mode=fullscreen] #sandbox-frame { inset: 0; width: 100vw; height: 100vh !important; }
+    [data-display-mode=pip] #sandbox-frame { right: 16px; bottom: 16px; width: ${PIP_WIDTH}px;
+      height: ${PIP_HEIGHT}px !important; border-radius: 8px; box-shadow: 0 4px 24px #0006; }
+    #exit-mode { position: fixed; z-index: 11; padding: 4px 10px; font-size: 13px; cursor: pointer; }
+    [data-display-mode=fullscreen] #exit-mode { top: 8px; right: 8px; }
+    [data-display-mode=pip] #exit-mode { right: 16px; bottom: ${PIP_HEIGHT + 24}px; }
   </style>
 </head>
 <body>
   <div id="status">Connecting...</div>
+  <div id="error" role="alert" hidden><span></span><button title="Dismiss">×</button></div>
   <iframe id="sandbox-frame"></iframe>
+  <button id="exit-mode" hidden></button>
 
   <script>
     const sessionId = window.location.pathname.split('/').pop();
     const SANDBOX_PROXY_READY = "ui/notifications/sandbox-proxy-ready";
     const SANDBOX_RESOURCE_READY = "ui/notifications/sandbox-resource-ready";
 
+    const REQUEST_TIMEOUT_MS = ${REQUEST_TIMEOUT_MS};
+    const APP_INIT_TIMEOUT_MS = ${APP_INIT_TIMEOUT_MS};
+    // A little under the shim's own limit, so the page reports back before it gives up
+    const TEARDOWN_TIMEOUT_MS = ${TEARDOWN_TIMEOUT_MS - 500};
+    const DISPLAY_MODES = ['inline', 'fullscreen', 'pip'];
+    // JSON-RPC error codes the host answers with itself
+    const METHOD_NOT_FOUND = -32601;
+    const CONNECTION_LOST = -32000;
+    const REQUEST_TIMEOUT = -32001;
+    // Requests the app may send its own server through the shim
+    const SERVER_METHODS = ${JSON.stringify(APP_REQUEST_METHODS)};
+
     const frame = document.getElementById('sandbox-frame');
     const status = document.getElementById('status');
+    const errorBanner = document.getElementById('error');
+    errorBanner.querySelector('button').addEventListener('click', () => { errorBanner.hidden = true; });
+
+    function showError(text) {
+      errorBanner.querySelector('span').textContent = text;
+      errorBanner.hidden = false;
+    }
 
     // Connect WebSocket to get app data
-    const ws = new WebSocket('ws://localhost:${hostPort}/?session=' + sessionId);
+    // Same host as the page, which may be a forwarded port
+    const ws = new WebSocket((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + '/?session=' + sessionId);
     let appData = null;
-    let pendingToolCalls = new Map();
-    let toolCallCounter = 0;
+    // App requests sent to the shim, by requestId
+    const pendingRequests = new Map();
+    let requestCounter = 0;
+    // The app's requests to its server in flight, by their JSON-RPC id
+    const appRequests = new Map();
+    let appInitialized = false;
+    let initTimer = null;
+    let sessionClosed = false;
+    // Requests the host sent the app, by their JSON-RPC id
+    const hostRequests = new Map();
+    let hostRequestCounter = 0;
 
     ws.onmessage = (event) => {
       const msg = JSON.parse(event.data);
 
+      // A new app replaces the one shown, which gets to save its state first
       if (msg.type === 'app-data') {
-        appData = msg;
-        status.textContent = 'Loading app...';
+        teardownApp().then(() => loadApp(msg));
+      }
 
-        // Load the sandbox iframe (different origin for security)
-        frame.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
-        frame.src = msg.sandboxUrl;
+      // The same app tool was called again; this tab shows the new call
+      if (msg.type === 'tool-call') {
+        appData.toolInput = msg.toolInput;
+        appData.toolResult = msg.toolResult;
+        appData.toolCancelReason = msg.toolCancelReason;
+        if (appInitialized) sendToolCall();
+        window.focus();
       }
 
-      if (msg.type === 'tool-result') {
-        const resolve = pendingToolCalls.get(msg.requestId);
-        if (resolve) {
-          resolve(msg.result);
-          pendingToolCalls.delete(msg.requestId);
+      // The call this tab shows made progress or finished
+      if (msg.type === 'tool-call-update') {
+        const update = msg.update;
+        if (update.type === 'progress') {
+          const { progress, total, message } = update.progress;
+          const done = total ? Math.round(progress / total * 100) + '%' : '';
+          showCallStatus([message, done].filter(Boolean).join(' · '));
+          // Not part of the MCP Apps spec: apps have no progress token for the host's call
+          if (appInitialized) {
+            sendToApp({ jsonrpc: '2.0', method: 'ui/notifications/tool-progress', params: update.progress });
+          }
+        } else {
+          if (update.type === 'result') appData.toolResult = update.result;
+          else appData.toolCancelReason = update.reason;
+          if (appInitialized) sendToolOutcome();
+          showCallStatus();
         }
       }
+
+      if (msg.type === 'app-response') {
+        finishRequest(msg.requestId, msg);
+      }
+
+      // Progress is only reported to apps that asked for it with a progress token
+      if (msg.type === 'tool-progress') {
+        if (pendingRequests.has(msg.requestId)) startRequestTimer(msg.requestId);
+        for (const call of appRequests.values()) {
+          if (call.requestId === msg.requestId && call.progressToken !== undefined) {
+            sendToApp({
+              jsonrpc: '2.0',
+              method: 'notifications/progress',
+              params: { ...msg.progress, progressToken: call.progressToken },
+            });
+          }
+        }
+      }
+
+      // The upstream behind this app lost its connection; tool calls wait for it
+      if (msg.type === 'upstream-status') {
+        status.style.display = '';
+        if (msg.status === 'connected') {
+          status.textContent = 'Reconnected to ' + msg.upstream;
+          setTimeout(showCallStatus, 1000);
+        } else {
+          status.textContent = msg.status === 'reconnecting'
+            ? 'Reconnecting to ' + msg.upstream + '...'
+            : msg.upstream + ' is unavailable';
+        }
+      }
+
+      // The shim is shutting down; the app's requests still work while it saves its state
+      if (msg.type === 'teardown') {
+        teardownApp().then(() => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'teardown-complete' }));
+        });
+      }
+
+      // Closed from the MCP client or the dashboard; scripts may only close tabs they opened
+      if (msg.type === 'session-closed') {
+        sessionClosed = true;
+        teardownApp().then(() => {
+          frame.remove();
+          status.style.display = '';
+          status.textContent = 'This app session was closed.';
+          window.close();
+        });
+      }
     };
 
-    // Listen for messages from sandbox iframe
+    function loadApp(msg) {
+      appData = msg;
+      appInitialized = false;
+      status.style.display = '';
+      status.textContent = 'Loading app...';
+
+      // Load the sandbox iframe (different origin for security)
+      frame.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
+      frame.setAttribute('allow', msg.allow || '');
+      frame.src = msg.sandboxUrl;
+    }
+
+    // Also sent when the tab closes, though the page cannot wait for the app then
+    window.addEventListener('pagehide', () => { teardownApp(); });
+
+    // Calls still waiting on the shim can no longer be answered
+    ws.onclose = () => {
+      for (const requestId of [...pendingRequests.keys()]) {
+        finishRequest(requestId, { error: { code: CONNECTION_LOST, message: 'Lost connection to the shim' } });
+      }
+      if (!sessionClosed) showError('Lost connection to the shim. Tool calls from this app will fail until the page is reloaded.');
+    };
+
+    // Listen for messages from sandbox iframe; other windows (an opener, a
+    // popup, another frame) must not drive the session's tools
     window.addEventListener('message', (event) => {
+      if (event.source !== frame.contentWindow) return;
+
       // Sandbox proxy ready — send it the app HTML
       if (event.data && event.data.method === SANDBOX_PROXY_READY) {
         status.textContent = 'Initializing app...';
@@ -216,6 +1285,13 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
           method: SANDBOX_RESOURCE_READY,
           params: { html: appData.html },
         }, '*');
+        clearTimeout(initTimer);
+        initTimer = setTimeout(() => {
+          if (appInitialized) return;
+          const text = 'The app did not start within ' + APP_INIT_TIMEOUT_MS / 1000 + ' seconds.';
+          showError(text + ' It may have failed to load; check the browser console.');
+          reportToShim('notifications/message', { level: 'error', logger: 'mcp-app-shim', data: text });
+        }, APP_INIT_TIMEOUT_MS);
         return;
       }
 
@@ -232,8 +1308,9 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
 
       // ui/initialize — app is ready for handshake
       if (method === 'ui/initialize') {
+        clearTimeout(initTimer);
         status.textContent = 'App connected!';
-        setTimeout(() => { status.style.display = 'none'; }, 1000);
+        setTimeout(showCallStatus, 1000);
 
         // Send initialize response (must match McpUiInitializeResultSchema)
         sendToApp({
@@ -246,63 +1323,77 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
               version: '0.1.0',
             },
             hostCapabilities: {
-              serverTools: {},
+              ...serverCapabilities(),
               openLinks: {},
+              logging: {},
+              message: { text: {}, image: {}, audio: {}, resource: {}, resourceLink: {} },
+              updateModelContext: {
+                text: {}, image: {}, audio: {}, resource: {}, resourceLink: {}, structuredContent: {},
+              },
             },
-            hostContext: {
-              theme: window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
-              platform: 'web',
-              containerDimensions: { maxHeight: window.innerHeight - 40 },
-              displayMode: 'inline',
-              availableDisplayModes: ['inline'],
-            },
+            hostContext: sentContext = hostContext(),
           },
         });
 
-        // Send tool input
-        sendToApp({
-          jsonrpc: '2.0',
-          method: 'ui/notifications/tool-input',
-          params: { arguments: appData.toolInput },
-        });
-
-        // Send tool result
-        sendToApp({
-          jsonrpc: '2.0',
-          method: 'ui/notifications/tool-result',
-          params: appData.toolResult,
-        });
-
+        appInitialized = true;
+        sendToolCall();
         return;
       }
 
-      // tools/call — app wants to call a server tool
-      if (method === 'tools/call') {
-        const requestId = String(++toolCallCounter);
+      // tools/call, resources/read etc. — relayed to the app's server, which checks them
+      if (SERVER_METHODS.includes(method) && id !== undefined) {
+        if (ws.readyState !== WebSocket.OPEN) {
+          sendToApp({ jsonrpc: '2.0', id, error: { code: CONNECTION_LOST, message: 'Lost connection to the shim' } });
+          return;
+        }
+        const requestId = String(++requestCounter);
         const promise = new Promise((resolve) => {
-          pendingToolCalls.set(requestId, resolve);
+          pendingRequests.set(requestId, { resolve });
         });
+        startRequestTimer(requestId);
+        appRequests.set(id, { requestId, progressToken: msg.params?._meta?.progressToken });
 
         ws.send(JSON.stringify({
-          type: 'call-server-tool',
+          type: 'app-request',
           requestId,
-          name: msg.params.name,
-          arguments: msg.params.arguments,
+          request: { method, params: msg.params },
         }));
 
-        promise.then((result) => {
-          sendToApp({
-            jsonrpc: '2.0',
-            id: id,
-            result: result,
-          });
+        promise.then((reply) => {
+          appRequests.delete(id);
+          if (reply.error) {
+            const what = method === 'tools/call' ? 'Tool call ' + msg.params?.name : method;
+            showError(what + ' failed: ' + reply.error.message);
+          }
+          sendToApp(reply.error
+            ? { jsonrpc: '2.0', id: id, error: reply.error }
+            : { jsonrpc: '2.0', id: id, result: reply.result });
         });
 
         return;
       }
 
-      // ui/sizeChange — app reporting its size
-      if (method === 'ui/sizeChange') {
+      // The app gave up on a request; cancel it upstream and never answer it
+      if (method === 'notifications/cancelled') {
+        const call = appRequests.get(msg.params?.requestId);
+        if (call) {
+          appRequests.delete(msg.params.requestId);
+          clearTimeout(pendingRequests.get(call.requestId)?.timer);
+          pendingRequests.delete(call.requestId);
+          ws.send(JSON.stringify({ type: 'cancel-app-request', requestId: call.requestId }));
+        }
+        return;
+      }
+
+      if (method === 'ui/request-display-mode') {
+        const mode = msg.params?.mode;
+        if (DISPLAY_MODES.includes(mode) && mode !== displayMode) setDisplayMode(mode);
+        if (id !== undefined) sendToApp({ jsonrpc: '2.0', id, result: { mode: displayMode } });
+        return;
+      }
+
+      // App reporting its size; ui/sizeChange is what older apps send
+      if (method === 'ui/notifications/size-changed' || method === 'ui/sizeChange') {
         const { width, height } = msg.params || {};
         if (height) frame.style.height = height + 'px';
         if (width) frame.style.minWidth = Math.min(width, window.innerWidth) + 'px';
@@ -310,19 +1401,186 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
         return;
       }
 
-      // ui/openLink
-      if (method === 'ui/openLink') {
+      // ui/openLink is what older apps send
+      if (method === 'ui/open-link' || method === 'ui/openLink') {
         window.open(msg.params.url, '_blank', 'noopener,noreferrer');
         if (id) sendToApp({ jsonrpc: '2.0', id, result: {} });
         return;
       }
 
-      // ui/message, ui/updateModelContext, logging — acknowledge
-      if (id) {
-        sendToApp({ jsonrpc: '2.0', id, result: {} });
+      // Meant for the model: the shim keeps them for the MCP client
+      if (method === 'ui/message' || method === 'ui/update-model-context' || method === 'notifications/message') {
+        if (method === 'notifications/message' && ERROR_LEVELS.includes(msg.params?.level)) {
+          const data = msg.params.data;
+          showError('The app reported an error: ' + (typeof data === 'string' ? data : JSON.stringify(data)));
+        }
+        reportToShim(method, msg.params);
+        if (id) sendToApp({ jsonrpc: '2.0', id, result: {} });
+        return;
+      }
+
+      if (method === 'ping') {
+        if (id !== undefined) sendToApp({ jsonrpc: '2.0', id, result: {} });
+        return;
+      }
+
+      // Answers to the host's own requests
+      if (method === undefined) {
+        hostRequests.get(id)?.(msg);
+        return;
+      }
+
+      // Unknown notifications need no answer
+      if (id === undefined) return;
+      sendToApp({ jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: 'Method not found: ' + method } });
+    }
+
+    const ERROR_LEVELS = ['error', 'critical', 'alert', 'emergency'];
+
+    const darkScheme = window.matchMedia('(prefers-color-scheme: dark)');
+    const exitMode = document.getElementById('exit-mode');
+    let displayMode = 'inline';
+    // The host context the app was last told about
+    let sentContext = {};
+
+    function hostContext() {
+      return {
+        theme: darkScheme.matches ? 'dark' : 'light',
+        platform: 'web',
+        locale: navigator.language,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        containerDimensions: containerDimensions(),
+        displayMode,
+        availableDisplayModes: DISPLAY_MODES,
+      };
+    }
+
+    function containerDimensions() {
+      if (displayMode === 'fullscreen') return { width: window.innerWidth, height: window.innerHeight };
+      if (displayMode === 'pip') return { width: ${PIP_WIDTH}, height: ${PIP_HEIGHT} };
+      return { maxWidth: window.innerWidth, maxHeight: window.innerHeight - 40 };
+    }
+
+    // Tells the app what changed since it was last told
+    function notifyHostContext() {
+      if (!appInitialized) return;
+      const context = hostContext();
+      const changed = Object.fromEntries(Object.entries(context)
+        .filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(sentContext[key])));
+      sentContext = context;
+      if (Object.keys(changed).length > 0) {
+        sendToApp({ jsonrpc: '2.0', method: 'ui/notifications/host-context-changed', params: changed });
+      }
+    }
+
+    let resizeTimer = null;
+    window.addEventListener('resize', () => {
+      clearTimeout(resizeTimer);
+      resizeTimer = setTimeout(notifyHostContext, 100);
+    });
+    darkScheme.addEventListener('change', notifyHostContext);
+    window.addEventListener('languagechange', notifyHostContext);
+
+    function setDisplayMode(mode) {
+      displayMode = mode;
+      document.body.dataset.displayMode = mode;
+      exitMode.hidden = mode === 'inline';
+      exitMode.textContent = mode === 'fullscreen' ? 'Exit full screen' : 'Restore';
+      notifyHostContext();
+    }
+    exitMode.addEventListener('click', () => setDisplayMode('inline'));
+    // Only seen while the host page, not the app, has focus
+    document.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape' && displayMode !== 'inline') setDisplayMode('inline');
+    });
+
+    // Resolves with the app's response, or undefined if it does not answer in time
+    function requestApp(method, params, timeoutMs) {
+      const id = 'host-' + (++hostRequestCounter);
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => finish(undefined), timeoutMs);
+        function finish(response) {
+          clearTimeout(timer);
+          hostRequests.delete(id);
+          resolve(response);
+        }
+        hostRequests.set(id, finish);
+        sendToApp({ jsonrpc: '2.0', id, method, params });
+      });
+    }
+
+    // Lets the app save its state before it goes away
+    function teardownApp() {
+      if (!appInitialized) return Promise.resolve();
+      appInitialized = false;
+      return requestApp('ui/resource-teardown', {}, TEARDOWN_TIMEOUT_MS);
+    }
+
+    // Only what the app's server lets it use; serverPrompts is not in the MCP Apps spec
+    function serverCapabilities() {
+      const methods = appData.serverMethods || [];
+      return {
+        ...(methods.includes('tools/call') ? { serverTools: {} } : {}),
+        ...(methods.includes('resources/read') ? { serverResources: {} } : {}),
+        ...(methods.includes('prompts/get') ? { serverPrompts: {} } : {}),
+      };
+    }
+
+    function reportToShim(method, params) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'app-message', message: { method, params } }));
+      }
+    }
+
+    // Restarted by progress, so long-running tools that report it are not cut off
+    function startRequestTimer(requestId) {
+      const call = pendingRequests.get(requestId);
+      clearTimeout(call.timer);
+      call.timer = setTimeout(() => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'cancel-app-request', requestId }));
+        const seconds = REQUEST_TIMEOUT_MS / 1000;
+        finishRequest(requestId, { error: { code: REQUEST_TIMEOUT, message: 'Request timed out after ' + seconds + ' seconds' } });
+      }, REQUEST_TIMEOUT_MS);
+    }
+
+    function finishRequest(requestId, reply) {
+      const call = pendingRequests.get(requestId);
+      if (!call) return;
+      clearTimeout(call.timer);
+      pendingRequests.delete(requestId);
+      call.resolve(reply);
+    }
+
+    // Send tool input, then how the call ended if it has
+    function sendToolCall() {
+      sendToApp({
+        jsonrpc: '2.0',
+        method: 'ui/notifications/tool-input',
+        params: { arguments: appData.toolInput },
+      });
+      sendToolOutcome();
+      showCallStatus();
+    }
+
+    function sendToolOutcome() {
+      if (appData.toolResult) {
+        sendToApp({ jsonrpc: '2.0', method: 'ui/notifications/tool-result', params: appData.toolResult });
+      } else if (appData.toolCancelReason !== undefined) {
+        sendToApp({
+          jsonrpc: '2.0',
+          method: 'ui/notifications/tool-cancelled',
+          params: { reason: appData.toolCancelReason },
+        });
       }
     }
 
+    // The status bar says so while the tool is still running
+    function showCallStatus(detail) {
+      const running = appData && !appData.toolResult && appData.toolCancelReason === undefined;
+      status.style.display = running ? '' : 'none';
+      if (running) status.textContent = 'Running ' + appData.toolName + '...' + (detail ? ' ' + detail : '');
+    }
+
     function sendToApp(msg) {
       frame.contentWindow.postMessage(msg, '*');
     }
@@ -331,7 +1589,8 @@ function getHostPageHtml(hostPort: number, sandboxPort: number): string {
 </html>`;
 }
 
-function getSandboxPageHtml(): string {
+/** `allow` is the permission policy the app's iframe is granted. */
+function getSandboxPageHtml(allow: string): string {
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -357,6 +1616,7 @@ function getSandboxPageHtml(): string {
     const inner = document.createElement('iframe');
     inner.style = 'width:100%; height:100%; border:none;';
     inner.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
+    inner.setAttribute('allow', ${JSON.stringify(allow)});
     document.body.appendChild(inner);
 
     const OWN_ORIGIN = window.location.origin;
@@ -369,6 +1629,9 @@ function getSandboxPageHtml(): string {
           const doc = inner.contentDocument || inner.contentWindow?.document;
           if (doc) {
             doc.open();
+            // After open(), which drops the window's listeners; errors the app
+            // does not catch itself reach the host as log messages
+            reportErrors(inner.contentWindow);
             doc.write(html);
             doc.close();
           } else {
@@ -386,6 +1649,21 @@ function getSandboxPageHtml(): string {
       }
     });
 
+    function reportErrors(win) {
+      const report = (data) => window.parent.postMessage({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'error', logger: 'app', data },
+      }, '*');
+      win.addEventListener('error', (event) => {
+        report(event.error?.stack || event.message || 'Script error');
+      });
+      win.addEventListener('unhandledrejection', (event) => {
+        const reason = event.reason;
+        report('Unhandled promise rejection: ' + (reason?.stack || reason?.message || String(reason)));
+      });
+    }
+
     // Notify host that sandbox is ready
     window.parent.postMessage({
       jsonrpc: '2.0',
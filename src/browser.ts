@@ -0,0 +1,28 @@
+/**
+ * Opens URLs for the user according to the `browser` config: the default
+ * browser, a named one, a custom command, or not at all.
+ */
+
+import { spawn } from "node:child_process";
+import open from "open";
+import { createLogger } from "./log.js";
+import type { BrowserConfig } from "./config.js";
+
+const log = createLogger("app-host");
+
+export async function openBrowser(url: string, browser: BrowserConfig) {
+  if (browser.open === false) {
+    log("Browser opening disabled; app available at", url);
+    return;
+  }
+  if (browser.command) {
+    const child = spawn(browser.command, [...(browser.args ?? []), url], {
+      detached: true,
+      stdio: "ignore",
+    });
+    child.on("error", (err) => log.error(`Failed to run browser command ${browser.command}:`, err));
+    child.unref();
+    return;
+  }
+  await open(url, browser.app ? { app: { name: browser.app, arguments: browser.args } } : {});
+}
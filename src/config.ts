@@ -0,0 +1,269 @@
+/**
+ * JSON config file for the shim.
+ *
+ * Passed with `--config <path>` or found via the MCP_APP_SHIM_CONFIG env var.
+ * Everything is optional except at least one upstream, which may instead come
+ * from the command line. Validation errors name the offending key, e.g.
+ * `upstreams[1].url: Invalid URL`.
+ */
+
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import { LOG_LEVELS } from "./log.js";
+import type { UpstreamSpec } from "./upstream.js";
+
+export const CONFIG_ENV_VAR = "MCP_APP_SHIM_CONFIG";
+
+const port = z.number().int().min(1).max(65535);
+
+/** An http(s) URL without a path, e.g. "https://devbox.example:8443". */
+const origin = z.url({ protocol: /^https?$/ }).refine(url => new URL(url).pathname === "/", "must not have a path");
+
+const authSchema = z.discriminatedUnion("type", [
+  z.strictObject({
+    type: z.literal("bearer"),
+    /** Env var holding the bearer token. */
+    tokenEnv: z.string().min(1),
+  }),
+  z.strictObject({
+    type: z.literal("oauth"),
+    clientId: z.string().min(1).optional(),
+    clientSecretEnv: z.string().min(1).optional(),
+    scopes: z.array(z.string()).optional(),
+    tokenDir: z.string().min(1).optional(),
+  }),
+]);
+
+const upstreamSchema = z.strictObject({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, "may only contain letters, digits, '_' and '-'").optional(),
+  prefix: z.string().optional(),
+  url: z.url().optional(),
+  transport: z.enum(["auto", "streamable-http", "sse"]).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  auth: authSchema.optional(),
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+}).superRefine((upstream, ctx) => {
+  if (!upstream.url === !upstream.command) {
+    ctx.addIssue({ code: "custom", message: 'exactly one of "url" or "command" is required' });
+  }
+  if (upstream.url) {
+    for (const key of ["args", "env", "cwd"] as const) {
+      if (upstream[key] !== undefined) {
+        ctx.addIssue({ code: "custom", path: [key], message: `only applies to "command" upstreams` });
+      }
+    }
+  }
+  if (upstream.command) {
+    for (const key of ["transport", "headers", "auth"] as const) {
+      if (upstream[key] !== undefined) {
+        ctx.addIssue({ code: "custom", path: [key], message: `only applies to "url" upstreams` });
+      }
+    }
+  }
+});
+
+const hostSchema = z.strictObject({
+  port: port.optional(),
+  sandboxPort: port.optional(),
+  bindAddress: z.string().min(1).optional(),
+  /** Join another shim instance's viewer when it already serves `port`. */
+  share: z.boolean().optional(),
+  /**
+   * Where browsers reach `port` when it is forwarded (SSH, containers), e.g.
+   * "http://localhost:8080". Turns on remote mode: one port serves everything
+   * and no browser is opened on this machine.
+   */
+  publicUrl: origin.optional(),
+  /**
+   * Where browsers reach the sandbox in remote mode, on another host name that
+   * resolves to the same port (e.g. "http://sandbox.localhost:8080"). Defaults
+   * to `<publicUrl>/sandbox`.
+   */
+  sandboxUrl: origin.optional(),
+}).refine(host => host.port === undefined || host.port !== host.sandboxPort, {
+  path: ["sandboxPort"],
+  message: "must differ from port",
+}).refine(host => !host.sandboxUrl || (host.publicUrl && new URL(host.sandboxUrl).hostname !== new URL(host.publicUrl).hostname), {
+  path: ["sandboxUrl"],
+  message: 'requires "publicUrl" and a different host name',
+});
+
+const browserSchema = z.strictObject({
+  /** Set to false to only print the app URL. */
+  open: z.boolean().optional(),
+  /** Browser to open URLs with, e.g. "firefox" (passed to the `open` package). */
+  app: z.string().min(1).optional(),
+  /** Extra arguments for `app` or `command`. */
+  args: z.array(z.string()).optional(),
+  /** Command run with the URL appended as its last argument, e.g. "wslview". */
+  command: z.string().min(1).optional(),
+  /**
+   * Update a tab that is still open instead of opening another: for repeated
+   * calls with the same UI resource, or for any app call from this conversation.
+   */
+  reuse: z.enum(["never", "resource", "conversation"]).optional(),
+}).refine(browser => !(browser.app && browser.command), {
+  path: ["command"],
+  message: 'cannot be combined with "app"',
+});
+
+const toolOverrideSchema = z.strictObject({
+  /** Name the MCP client sees instead of the prefixed one. */
+  name: z.string().regex(/^[A-Za-z0-9_.-]{1,128}$/, "may only contain letters, digits, '_', '.' and '-'").optional(),
+  description: z.string().optional(),
+  /** Always passed to the upstream, also on apps' calls, and hidden from the input schema. */
+  arguments: z.record(z.string(), z.unknown()).optional(),
+  /** Passed to the upstream when the client leaves them out, and hidden from the input schema. */
+  defaults: z.record(z.string(), z.unknown()).optional(),
+  /** `false` treats the tool as a plain tool; a `ui://` URI shows that resource instead. */
+  ui: z.union([z.literal(false), z.string().min(1)]).optional(),
+});
+
+const toolsSchema = z.strictObject({
+  /**
+   * Glob patterns (`*`, `?`) of prefixed upstream tool names (before any
+   * override renames them); when set, only matches are exposed.
+   */
+  allow: z.array(z.string()).optional(),
+  /** Glob patterns of prefixed upstream tool names to hide; applied after `allow`. */
+  deny: z.array(z.string()).optional(),
+  /**
+   * Glob patterns of prefixed upstream tool names that apps may call with callServerTool;
+   * by default an app may call every exposed tool of its own upstream.
+   */
+  appAllow: z.array(z.string()).optional(),
+  /** Call timeouts in ms by prefixed upstream tool name glob; the first matching pattern wins. */
+  timeouts: z.record(z.string(), z.number().int().positive()).optional(),
+  /** Changes to single tools, by prefixed upstream tool name (not the new `name`). */
+  overrides: z.record(z.string(), toolOverrideSchema).optional(),
+  /** Set to false to hide the shim's own app session tools (list_app_sessions etc.). */
+  sessionTools: z.boolean().optional(),
+});
+
+const elicitationSchema = z.strictObject({
+  /** Show form elicitations in the browser when the MCP client cannot show them. */
+  browser: z.boolean().optional(),
+});
+
+const sessionsSchema = z.strictObject({
+  /** Keep app sessions on disk so they can be viewed after a restart. */
+  persist: z.boolean().optional(),
+  /** Where persisted sessions are stored (default ~/.mcp-app-shim/sessions). */
+  dir: z.string().min(1).optional(),
+});
+
+const uiResourcesSchema = z.strictObject({
+  /** Read the UI resources of all app tools at startup rather than on their first call. */
+  prefetch: z.boolean().optional(),
+  /** How long a UI resource is reused, in ms (default 10 minutes); 0 reads it on every call. */
+  ttl: z.number().int().min(0).optional(),
+  /** Keep UI resources on disk, so they are not read again after a restart. */
+  persist: z.boolean().optional(),
+  /** Where persisted UI resources are stored (default ~/.mcp-app-shim/ui-resources). */
+  dir: z.string().min(1).optional(),
+});
+
+const configSchema = z.strictObject({
+  $schema: z.string().optional(),
+  upstreams: z.array(upstreamSchema).min(1).optional(),
+  host: hostSchema.optional(),
+  browser: browserSchema.optional(),
+  logLevel: z.enum(LOG_LEVELS).optional(),
+  tools: toolsSchema.optional(),
+  elicitation: elicitationSchema.optional(),
+  sessions: sessionsSchema.optional(),
+  uiResources: uiResourcesSchema.optional(),
+  /** Write app views to this directory as HTML files instead of serving them. */
+  exportDir: z.string().min(1).optional(),
+});
+
+export type ShimConfig = z.infer<typeof configSchema>;
+export type UpstreamConfig = z.infer<typeof upstreamSchema>;
+export type HostConfig = z.infer<typeof hostSchema>;
+export type BrowserConfig = z.infer<typeof browserSchema>;
+export type ToolsConfig = z.infer<typeof toolsSchema>;
+export type ToolOverride = z.infer<typeof toolOverrideSchema>;
+export type SessionsConfig = z.infer<typeof sessionsSchema>;
+export type UiResourcesConfig = z.infer<typeof uiResourcesSchema>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((out, key) =>
+    typeof key === "number" ? `${out}[${key}]` : out ? `${out}.${String(key)}` : String(key), "");
+}
+
+export function parseConfig(raw: unknown, source: string): ShimConfig {
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.flatMap(issue =>
+      issue.code === "unrecognized_keys"
+        ? issue.keys.map(key => `  ${formatPath([...issue.path, key])}: unknown key`)
+        : [`  ${formatPath(issue.path) || "(root)"}: ${issue.message}`]);
+    throw new ConfigError(`Invalid config ${source}:\n${issues.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+export async function loadConfig(path: string): Promise<ShimConfig> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch (err) {
+    throw new ConfigError(`Could not read config ${path}: ${(err as Error).message}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError(`Config ${path} is not valid JSON: ${(err as Error).message}`);
+  }
+
+  const config = parseConfig(raw, path);
+
+  // Relative paths are relative to the config file, not the CLI's cwd
+  if (config.exportDir) config.exportDir = resolve(dirname(path), config.exportDir);
+  if (config.sessions?.dir) config.sessions.dir = resolve(dirname(path), config.sessions.dir);
+  if (config.uiResources?.dir) config.uiResources.dir = resolve(dirname(path), config.uiResources.dir);
+  for (const upstream of config.upstreams ?? []) {
+    if (upstream.cwd) upstream.cwd = resolve(dirname(path), upstream.cwd);
+    if (upstream.auth?.type === "oauth" && upstream.auth.tokenDir) {
+      upstream.auth.tokenDir = resolve(dirname(path), upstream.auth.tokenDir);
+    }
+  }
+  return config;
+}
+
+export function toUpstreamSpec(upstream: UpstreamConfig): UpstreamSpec {
+  const { name, prefix } = upstream;
+  if (upstream.command) {
+    return {
+      type: "stdio",
+      name,
+      prefix,
+      command: upstream.command,
+      args: upstream.args ?? [],
+      env: upstream.env,
+      cwd: upstream.cwd,
+    };
+  }
+  return {
+    type: "http",
+    name,
+    prefix,
+    url: new URL(upstream.url!),
+    transport: upstream.transport,
+    headers: upstream.headers,
+    auth: upstream.auth,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Content Security Policy and permissions for app sandboxes, from the UI
+ * resource's `_meta.ui.csp` and `_meta.ui.permissions`.
+ *
+ * Apps get a locked-down policy by default: same-origin and inline scripts and
+ * styles, data: images and no network access at all. Domains a resource
+ * declares open up only the directives the MCP Apps spec ties them to.
+ * Declared domains come from the upstream, so anything that is not a plain
+ * origin is dropped rather than pasted into the policy.
+ */
+
+import { z } from "zod";
+import { createLogger } from "./log.js";
+
+const log = createLogger("app-host");
+
+/** e.g. `https://api.example.com`, `https://*.example.com`, `wss://localhost:8080` */
+const ORIGIN_PATTERN = /^(https?|wss?):\/\/(\*\.)?[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*(:(\d{1,5}|\*))?$/;
+
+const cspSchema = z.object({
+  /** Origins for fetch/XHR/WebSocket. */
+  connectDomains: z.array(z.string()).optional(),
+  /** Origins for scripts, styles, images, fonts and media. */
+  resourceDomains: z.array(z.string()).optional(),
+  /** Origins for nested iframes. */
+  frameDomains: z.array(z.string()).optional(),
+  /** Allowed `<base href>` origins. */
+  baseUriDomains: z.array(z.string()).optional(),
+});
+
+const permissionsSchema = z.object({
+  camera: z.object({}).optional(),
+  microphone: z.object({}).optional(),
+  geolocation: z.object({}).optional(),
+  clipboardWrite: z.object({}).optional(),
+});
+
+export type UiResourceCsp = z.infer<typeof cspSchema>;
+export type UiResourcePermissions = z.infer<typeof permissionsSchema>;
+
+/** The parts of a UI resource's `_meta.ui` that decide what its sandbox may do. */
+export interface UiResourceSecurity {
+  csp?: UiResourceCsp;
+  permissions?: UiResourcePermissions;
+}
+
+/** Permission Policy feature names, by `_meta.ui.permissions` key. */
+const PERMISSION_FEATURES: Record<keyof UiResourcePermissions, string> = {
+  camera: "camera",
+  microphone: "microphone",
+  geolocation: "geolocation",
+  clipboardWrite: "clipboard-write",
+};
+
+/**
+ * Reads `csp` and `permissions` from a UI resource's `_meta.ui`. Malformed
+ * entries are ignored, which leaves the default policy in place.
+ */
+export function parseUiResourceSecurity(ui: unknown, resourceUri: string): UiResourceSecurity {
+  const meta = (typeof ui === "object" && ui !== null ? ui : {}) as Record<string, unknown>;
+  const security: UiResourceSecurity = {};
+
+  if (meta.csp !== undefined) {
+    const parsed = cspSchema.safeParse(meta.csp);
+    if (parsed.success) {
+      security.csp = Object.fromEntries(Object.entries(parsed.data).map(([key, domains]) => [key, domains.filter((domain) => {
+        if (ORIGIN_PATTERN.test(domain)) return true;
+        log.warn(`Ignoring invalid ${key} entry in ${resourceUri}: ${domain}`);
+        return false;
+      })]));
+    } else {
+      log.warn(`Ignoring malformed _meta.ui.csp in ${resourceUri}`);
+    }
+  }
+
+  if (meta.permissions !== undefined) {
+    const parsed = permissionsSchema.safeParse(meta.permissions);
+    if (parsed.success) security.permissions = parsed.data;
+    else log.warn(`Ignoring malformed _meta.ui.permissions in ${resourceUri}`);
+  }
+  return security;
+}
+
+/** The sandbox's policy; violations are reported to `reportUri` when given. */
+export function buildCsp(csp: UiResourceCsp = {}, reportUri?: string): string {
+  const sources = (...list: (string | string[] | undefined)[]) => list.flat().filter(Boolean).join(" ");
+  const { connectDomains = [], resourceDomains = [], frameDomains = [], baseUriDomains = [] } = csp;
+  const directives = [
+    "default-src 'none'",
+    `script-src ${sources("'self'", "'unsafe-inline'", resourceDomains)}`,
+    `style-src ${sources("'self'", "'unsafe-inline'", resourceDomains)}`,
+    `img-src ${sources("'self'", "data:", "blob:", resourceDomains)}`,
+    `font-src ${sources("'self'", "data:", resourceDomains)}`,
+    `media-src ${sources("'self'", "data:", "blob:", resourceDomains)}`,
+    `connect-src ${connectDomains.length > 0 ? sources("'self'", connectDomains) : "'none'"}`,
+    `worker-src ${sources("'self'", "blob:")}`,
+    `frame-src ${frameDomains.length > 0 ? sources(frameDomains) : "'none'"}`,
+    `base-uri ${baseUriDomains.length > 0 ? sources(baseUriDomains) : "'self'"}`,
+    "object-src 'none'",
+    "form-action 'self'",
+  ];
+  if (reportUri) directives.push(`report-uri ${reportUri}`);
+  return directives.join("; ");
+}
+
+/** The iframe `allow` attribute granting the requested permissions. */
+export function permissionsAllowList(permissions: UiResourcePermissions = {}): string {
+  return (Object.keys(PERMISSION_FEATURES) as (keyof UiResourcePermissions)[])
+    .filter(key => permissions[key])
+    .map(key => PERMISSION_FEATURES[key])
+    .join("; ");
+}
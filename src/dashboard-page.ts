@@ -0,0 +1,115 @@
+/**
+ * Session dashboard served at `/` on the host port.
+ *
+ * Lists every app session the viewer knows about (from GET /api/sessions) and
+ * lets the user reopen, duplicate or delete them. The list refreshes itself
+ * while the page is open.
+ */
+
+/** One row of GET /api/sessions. */
+export interface SessionSummary {
+  id: string;
+  url: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  upstream: string;
+  /** Status of the upstream; "closed" for sessions restored from disk. */
+  status: string;
+  createdAt: string;
+  /** Host pages currently showing the session. */
+  viewers: number;
+}
+
+const REFRESH_INTERVAL_MS = 5000;
+
+export function getDashboardPageHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="color-scheme" content="light dark">
+  <title>MCP App Sessions</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; margin: 32px; background: #f5f5f5; }
+    @media (prefers-color-scheme: dark) { body { background: #1a1a2e; color: #eee; } }
+    h1 { font-size: 20px; margin: 0 0 16px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { text-align: left; padding: 8px; border-bottom: 1px solid #8884; vertical-align: top; }
+    td.args { font-family: ui-monospace, monospace; font-size: 12px; max-width: 360px;
+      overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    td.actions { white-space: nowrap; }
+    td.actions button { margin-left: 4px; }
+    .status-closed { color: #999; }
+    .status-reconnecting { color: #c80; }
+    #empty { color: #888; }
+  </style>
+</head>
+<body>
+  <h1>MCP App Sessions</h1>
+  <table>
+    <thead>
+      <tr><th>Tool</th><th>Arguments</th><th>Upstream</th><th>Status</th><th>Opened</th><th></th></tr>
+    </thead>
+    <tbody id="sessions"></tbody>
+  </table>
+  <p id="empty" hidden>No app sessions yet.</p>
+
+  <script>
+    const tbody = document.getElementById('sessions');
+    const empty = document.getElementById('empty');
+
+    function statusText(session) {
+      const status = { connected: 'Live', reconnecting: 'Reconnecting', closed: 'Offline' }[session.status]
+        || session.status;
+      return session.viewers > 0 ? status + ' · open in ' + session.viewers + ' tab(s)' : status;
+    }
+
+    function cell(row, text, className) {
+      const td = row.insertCell();
+      td.textContent = text;
+      if (className) td.className = className;
+      return td;
+    }
+
+    function button(parent, text, onclick) {
+      const el = document.createElement('button');
+      el.textContent = text;
+      el.addEventListener('click', onclick);
+      parent.appendChild(el);
+    }
+
+    async function refresh() {
+      const res = await fetch('/api/sessions');
+      const { sessions } = await res.json();
+      tbody.replaceChildren();
+      empty.hidden = sessions.length > 0;
+      for (const session of sessions) {
+        const row = tbody.insertRow();
+        cell(row, session.toolName);
+        const args = JSON.stringify(session.toolInput);
+        cell(row, args, 'args').title = args;
+        cell(row, session.upstream);
+        cell(row, statusText(session), 'status-' + session.status);
+        cell(row, new Date(session.createdAt).toLocaleString());
+        const actions = cell(row, '', 'actions');
+        button(actions, 'Open', () => window.open(session.url, '_blank'));
+        button(actions, 'Duplicate', async () => {
+          const res = await fetch('/api/sessions/' + session.id + '/duplicate', { method: 'POST' });
+          if (res.ok) window.open((await res.json()).url, '_blank');
+          refresh();
+        });
+        button(actions, 'Delete', async () => {
+          if (!confirm('Delete this session?')) return;
+          await fetch('/api/sessions/' + session.id, { method: 'DELETE' });
+          refresh();
+        });
+      }
+    }
+
+    refresh();
+    setInterval(refresh, ${REFRESH_INTERVAL_MS});
+  </script>
+</body>
+</html>`;
+}
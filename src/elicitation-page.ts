@@ -0,0 +1,163 @@
+/**
+ * Browser form for elicitation requests, used when the MCP client cannot
+ * present them itself.
+ *
+ * The form is built client-side from the request's `requestedSchema`: a flat
+ * object of string, number, integer, boolean and enum (single or multi-select)
+ * properties. The answer is POSTed back to the same URL.
+ */
+
+import type { ElicitRequestFormParams } from "@modelcontextprotocol/sdk/types.js";
+
+export function getElicitationPageHtml(params: ElicitRequestFormParams): string {
+  // Safe inside <script>: nothing in the JSON can close the tag
+  const request = JSON.stringify(params).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="color-scheme" content="light dark">
+  <title>MCP App Shim — Input requested</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; max-width: 560px; margin: 32px auto; padding: 0 16px; }
+    #message { white-space: pre-wrap; margin-bottom: 24px; }
+    .field { margin-bottom: 16px; }
+    .field label { display: block; font-weight: 600; margin-bottom: 4px; }
+    .field .description { font-size: 13px; color: #666; margin-bottom: 4px; }
+    .field input[type=text], .field input[type=email], .field input[type=url],
+    .field input[type=date], .field input[type=datetime-local], .field input[type=number],
+    .field select { width: 100%; padding: 6px; font: inherit; }
+    .choice { display: block; font-weight: normal; }
+    .buttons { display: flex; gap: 8px; margin-top: 24px; }
+    #status { margin-top: 16px; }
+  </style>
+</head>
+<body>
+  <div id="message"></div>
+  <form id="form"></form>
+  <div id="status"></div>
+
+  <script>
+    const request = ${request};
+    const schema = request.requestedSchema || { properties: {} };
+    const required = new Set(schema.required || []);
+    const form = document.getElementById('form');
+    const statusEl = document.getElementById('status');
+    document.getElementById('message').textContent = request.message;
+
+    // Enum options as [value, label] pairs, from enum/enumNames or oneOf/anyOf consts
+    function optionsOf(prop) {
+      if (Array.isArray(prop.enum)) {
+        return prop.enum.map((value, i) => [value, (prop.enumNames && prop.enumNames[i]) || value]);
+      }
+      const choices = prop.oneOf || prop.anyOf;
+      return Array.isArray(choices) ? choices.map(c => [c.const, c.title || c.const]) : undefined;
+    }
+
+    const readers = {};
+    for (const [key, prop] of Object.entries(schema.properties || {})) {
+      const field = document.createElement('div');
+      field.className = 'field';
+      const label = document.createElement('label');
+      label.textContent = (prop.title || key) + (required.has(key) ? ' *' : '');
+      field.appendChild(label);
+      if (prop.description) {
+        const description = document.createElement('div');
+        description.className = 'description';
+        description.textContent = prop.description;
+        field.appendChild(description);
+      }
+
+      const options = optionsOf(prop) || (prop.type === 'array' && prop.items && optionsOf(prop.items));
+      if (prop.type === 'array' && options) {
+        const chosen = new Set(prop.default || []);
+        const boxes = options.map(([value, text]) => {
+          const choice = document.createElement('label');
+          choice.className = 'choice';
+          const box = document.createElement('input');
+          box.type = 'checkbox';
+          box.checked = chosen.has(value);
+          choice.append(box, ' ' + text);
+          field.appendChild(choice);
+          return [value, box];
+        });
+        readers[key] = () => boxes.filter(([, box]) => box.checked).map(([value]) => value);
+      } else if (options) {
+        const select = document.createElement('select');
+        if (!required.has(key)) select.appendChild(new Option('', ''));
+        for (const [value, text] of options) select.appendChild(new Option(text, value));
+        if (prop.default !== undefined) select.value = prop.default;
+        select.required = required.has(key);
+        field.appendChild(select);
+        readers[key] = () => select.value === '' ? undefined : select.value;
+      } else if (prop.type === 'boolean') {
+        const box = document.createElement('input');
+        box.type = 'checkbox';
+        box.checked = prop.default === true;
+        label.prepend(box);
+        readers[key] = () => box.checked;
+      } else {
+        const input = document.createElement('input');
+        const numeric = prop.type === 'number' || prop.type === 'integer';
+        input.type = numeric ? 'number'
+          : ({ email: 'email', uri: 'url', date: 'date', 'date-time': 'datetime-local' })[prop.format] || 'text';
+        if (prop.type === 'integer') input.step = '1';
+        if (prop.type === 'number') input.step = 'any';
+        if (prop.minimum !== undefined) input.min = prop.minimum;
+        if (prop.maximum !== undefined) input.max = prop.maximum;
+        if (prop.minLength !== undefined) input.minLength = prop.minLength;
+        if (prop.maxLength !== undefined) input.maxLength = prop.maxLength;
+        if (prop.default !== undefined) input.value = prop.default;
+        input.required = required.has(key);
+        field.appendChild(input);
+        readers[key] = () => {
+          if (input.value === '') return undefined;
+          if (numeric) return Number(input.value);
+          if (prop.format === 'date-time') return new Date(input.value).toISOString();
+          return input.value;
+        };
+      }
+      form.appendChild(field);
+    }
+
+    const buttons = document.createElement('div');
+    buttons.className = 'buttons';
+    for (const [action, text] of [['accept', 'Submit'], ['decline', 'Decline'], ['cancel', 'Cancel']]) {
+      const button = document.createElement('button');
+      button.type = action === 'accept' ? 'submit' : 'button';
+      button.textContent = text;
+      if (action !== 'accept') button.addEventListener('click', () => respond(action));
+      buttons.appendChild(button);
+    }
+    form.appendChild(buttons);
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const content = {};
+      for (const [key, read] of Object.entries(readers)) {
+        const value = read();
+        if (value !== undefined) content[key] = value;
+      }
+      respond('accept', content);
+    });
+
+    async function respond(action, content) {
+      for (const el of form.elements) el.disabled = true;
+      try {
+        const res = await fetch(window.location.pathname, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, content }),
+        });
+        statusEl.textContent = res.ok
+          ? 'Response sent. You can close this tab.'
+          : 'This request has expired.';
+      } catch (err) {
+        statusEl.textContent = 'Failed to send response: ' + err.message;
+      }
+    }
+  </script>
+</body>
+</html>`;
+}
@@ -3,28 +3,56 @@
 /**
  * MCP App Shim — stdio MCP proxy that opens a browser for MCP App tools.
  *
- * Usage: mcp-app-shim <upstream-mcp-url>
+ * Usage: mcp-app-shim [--config <file>] [--export-dir <dir>] [--public-url <url>] [name=]<upstream-mcp-url>... [-- <command> [args...]]
  *
- * Connects to the upstream MCP server via HTTP, re-exposes all tools via stdio,
- * and when a tool has _meta.ui.resourceUri, serves the app HTML locally and
- * opens the user's browser.
+ * Connects to one or more upstream MCP servers via HTTP (or spawns one as a
+ * stdio child process), re-exposes their tools, resources, prompts,
+ * completions and logging via stdio, and when a tool has _meta.ui.resourceUri,
+ * serves the app HTML locally and opens the user's browser — or, with
+ * --export-dir, writes a self-contained HTML snapshot instead.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  SetLevelRequestSchema,
+  PingRequestSchema,
+  RootsListChangedNotificationSchema,
+  McpError,
+  ErrorCode,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { Tool, CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { startAppHostServer, type AppHostServer } from "./app-host-server.js";
+import type {
+  CallToolResult,
+  ClientCapabilities,
+  JSONRPCMessage,
+  Progress,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { startAppHostServer, type AppHostServer, type ServedApp } from "./app-host-server.js";
+import { IMPLEMENTATION, type ClientRequestHandlers, type UpstreamSpec } from "./upstream.js";
+import { createAggregator, type Aggregator } from "./aggregator.js";
+import { exportApp } from "./app-export.js";
+import { createAppContexts, SESSION_RESOURCE_PREFIX } from "./app-context.js";
+import { createSessionTools } from "./session-tools.js";
+import { applyToolArguments } from "./tool-overrides.js";
+import { createUiResourceCache, DEFAULT_UI_RESOURCE_DIR, type UiResourceUpstream } from "./ui-resource-cache.js";
+import { appRequestMethods, type AppView, type ToolCallUpdate } from "./viewer-protocol.js";
+import { createLogger, setLogLevel } from "./log.js";
+import { CONFIG_ENV_VAR, ConfigError, loadConfig, parseConfig, toUpstreamSpec, type ShimConfig } from "./config.js";
 
-const IMPLEMENTATION = { name: "mcp-app-shim", version: "0.1.0" };
+const USAGE = "Usage: mcp-app-shim [--config <file>] [--export-dir <dir>] [--public-url <url>] [name=]<upstream-mcp-url>... [-- <command> [args...]]\n";
 
 function getToolUiResourceUri(tool: Tool): string | undefined {
   const meta = tool._meta as Record<string, unknown> | undefined;
@@ -34,129 +62,462 @@ function getToolUiResourceUri(tool: Tool): string | undefined {
   return meta["ui/resourceUri"] as string | undefined;
 }
 
-function log(...args: unknown[]) {
-  process.stderr.write(`[mcp-app-shim] ${args.map(a => typeof a === "string" ? a : JSON.stringify(a)).join(" ")}\n`);
+const log = createLogger("mcp-app-shim");
+
+/** Appends a line for the user after the tool's own content. */
+function withNote(result: CallToolResult, text: string): CallToolResult {
+  const content = Array.isArray(result.content) ? [...result.content] : [];
+  content.push({ type: "text", text });
+  return { ...result, content };
 }
 
-async function connectToUpstream(url: URL): Promise<Client> {
-  try {
-    const client = new Client(IMPLEMENTATION);
-    await client.connect(new StreamableHTTPClientTransport(url));
-    log("Connected via Streamable HTTP");
-    return client;
-  } catch {
-    log("Streamable HTTP failed, trying SSE...");
-  }
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Deadline for requests relayed from an upstream to the MCP client. Sampling
+ * and elicitation wait on the user, and the upstream cancels when it gives up.
+ */
+const RELAY_TIMEOUT_MS = 10 * 60_000;
+
+/** Parses `name=` off an upstream argument such as `excalidraw=https://…`. */
+function parseNamedArg(arg: string): { name?: string; value: string } {
+  const match = /^([A-Za-z0-9_-]+)=(.+)$/.exec(arg);
+  return match ? { name: match[1], value: match[2] } : { value: arg };
+}
+
+/**
+ * Starts reading from the MCP client over stdio and resolves once it sent
+ * initialize, so its capabilities are known before the upstreams connect.
+ * Its messages are held back until a server connects to the transport.
+ */
+async function acceptClient(): Promise<{ transport: Transport; capabilities: ClientCapabilities }> {
+  const stdio = new StdioServerTransport();
+  const held: JSONRPCMessage[] = [];
+  const transport: Transport = {
+    async start() {
+      stdio.onmessage = (message) => transport.onmessage?.(message);
+      for (const message of held.splice(0)) transport.onmessage?.(message);
+    },
+    send: (message) => stdio.send(message),
+    close: () => stdio.close(),
+  };
+  stdio.onclose = () => transport.onclose?.();
+  stdio.onerror = (err) => transport.onerror?.(err);
+
+  const capabilities = new Promise<ClientCapabilities>((resolve) => {
+    stdio.onmessage = (message) => {
+      held.push(message);
+      if (isInitializeRequest(message)) resolve(message.params.capabilities);
+    };
+  });
+  await stdio.start();
+  return { transport, capabilities: await capabilities };
+}
+
+interface CliArgs {
+  configPath?: string;
+  exportDir?: string;
+  publicUrl?: string;
+  /** Upstreams given on the command line; these replace any in the config file. */
+  specs: UpstreamSpec[];
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const separator = argv.indexOf("--");
+  const positional = separator === -1 ? [...argv] : argv.slice(0, separator);
+
+  const takeFlag = (flag: string, what: string): string | undefined => {
+    const index = positional.indexOf(flag);
+    if (index === -1) return undefined;
+    const value = positional[index + 1];
+    if (!value) throw new ConfigError(`${flag} requires ${what}`);
+    positional.splice(index, 2);
+    return value;
+  };
+  const configPath = takeFlag("--config", "a file path");
+  const exportDir = takeFlag("--export-dir", "a directory");
+  const publicUrl = takeFlag("--public-url", "a URL");
 
-  try {
-    const client = new Client(IMPLEMENTATION);
-    await client.connect(new SSEClientTransport(url));
-    log("Connected via SSE");
-    return client;
-  } catch (err) {
-    throw new Error(`Could not connect to upstream: ${err}`);
+  const specs: UpstreamSpec[] = positional.map((arg) => {
+    if (arg.startsWith("-")) throw new ConfigError(`Unknown option ${arg}\n${USAGE.trimEnd()}`);
+    const { name, value } = parseNamedArg(arg);
+    try {
+      return { type: "http", name, url: new URL(value) };
+    } catch {
+      throw new ConfigError(`Invalid upstream URL: ${arg}`);
+    }
+  });
+
+  if (separator !== -1) {
+    const [command, ...args] = argv.slice(separator + 1);
+    if (command) specs.push({ type: "stdio", command, args });
   }
+  return { configPath, exportDir, publicUrl, specs };
 }
 
 async function main() {
-  const upstreamUrl = process.argv[2];
-  if (!upstreamUrl) {
-    process.stderr.write("Usage: mcp-app-shim <upstream-mcp-url>\n");
+  const cli = parseArgs(process.argv.slice(2));
+  const configPath = cli.configPath ?? process.env[CONFIG_ENV_VAR];
+  const config: ShimConfig = configPath ? await loadConfig(configPath) : {};
+  if (cli.publicUrl) config.host = parseConfig({ host: { ...config.host, publicUrl: cli.publicUrl } }, "--public-url").host;
+  // In remote mode the browser is on another machine; opening one here helps nobody
+  const browser = config.host?.publicUrl ? { open: false, ...config.browser } : config.browser;
+  if (config.logLevel) setLogLevel(config.logLevel);
+  const exportDir = cli.exportDir ?? config.exportDir;
+
+  const specs = cli.specs.length > 0
+    ? cli.specs
+    : (config.upstreams ?? []).map(toUpstreamSpec);
+  if (specs.length === 0) {
+    process.stderr.write(USAGE);
     process.exit(1);
   }
+  if (configPath) log("Loaded config:", configPath);
+
+  let shuttingDown = false;
+  let appHostServer: AppHostServer | undefined;
+  // Set once every upstream has connected; one may fail for good while others still connect
+  let connectedAggregator: Aggregator | undefined;
+
+  async function shutdown(code: number) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    await appHostServer?.close();
+    await connectedAggregator?.close();
+    process.exit(code);
+  }
 
-  log("Connecting to upstream:", upstreamUrl);
-  const upstream = await connectToUpstream(new URL(upstreamUrl));
-
-  // Fetch upstream tools and resources
-  const toolsList = await upstream.listTools();
-  const tools = new Map<string, Tool>(toolsList.tools.map(t => [t.name, t]));
-  log("Discovered tools:", Array.from(tools.keys()));
-
-  let hasResources = false;
-  try {
-    await upstream.listResources();
-    hasResources = true;
-    log("Upstream supports resources");
-  } catch {
-    log("No resources endpoint (ok)");
+  // Started lazily: on the first app tool call, or up front for OAuth redirects
+  let appHostServerStarting: Promise<AppHostServer> | undefined;
+  function ensureAppHostServer(): Promise<AppHostServer> {
+    appHostServerStarting ??= startAppHostServer({
+      hostPort: config.host?.port,
+      sandboxPort: config.host?.sandboxPort,
+      bindAddress: config.host?.bindAddress,
+      share: config.host?.share,
+      publicUrl: config.host?.publicUrl,
+      sandboxUrl: config.host?.sandboxUrl,
+      browser,
+      sessions: config.sessions,
+      onAppMessage(sessionId, message) {
+        const uri = appContexts.record(sessionId, message);
+        if (uri && sessionSubscriptions.has(uri)) server?.sendResourceUpdated({ uri }).catch(ignore);
+      },
+      onSessionEnded(sessionId) {
+        if (!appContexts.close(sessionId)) return;
+        sessionSubscriptions.delete(SESSION_RESOURCE_PREFIX + sessionId);
+        server?.sendResourceListChanged().catch(ignore);
+      },
+    }).then((started) => (appHostServer = started));
+    return appHostServerStarting;
   }
 
-  let appHostServer: AppHostServer | undefined;
+  // What apps tell the model, exposed as a resource per session
+  const appContexts = createAppContexts();
+  const sessionSubscriptions = new Set<string>();
+  const sessionTools = config.tools?.sessionTools === false
+    ? undefined
+    : createSessionTools(() => appHostServer, appContexts);
+
+  // Every shim instance serves one MCP client, so its tabs belong to one conversation
+  function reuseKey(upstreamName: string, resourceUri: string): string | undefined {
+    switch (config.browser?.reuse) {
+      case "resource": return `${upstreamName} ${resourceUri}`;
+      case "conversation": return "conversation";
+      default: return undefined;
+    }
+  }
+
+  // Upstream notifications that arrive before the stdio transport connects have nobody to reach
+  let server: Server | undefined;
+  const ignore = () => {};
+
+  // App HTML is reused across calls until its upstream says it changed
+  const uiResources = createUiResourceCache({
+    ttl: config.uiResources?.ttl,
+    dir: config.uiResources?.persist ? config.uiResources.dir ?? DEFAULT_UI_RESOURCE_DIR : undefined,
+  });
 
-  // Use low-level Server to proxy raw JSON schemas without zod
-  const server = new Server(IMPLEMENTATION, {
+  // Upstreams are offered the sampling, elicitation and roots the MCP client
+  // supports (elicitation also when the browser can ask instead), and their
+  // requests wait until the client has finished initializing
+  const downstream = await acceptClient();
+  const { sampling, elicitation, roots } = downstream.capabilities;
+  const clientCapabilities: ClientCapabilities = {
+    ...(sampling ? { sampling } : {}),
+    ...(roots ? { roots } : {}),
+    ...(elicitation || config.elicitation?.browser ? { elicitation: elicitation ?? { form: {}, url: {} } } : {}),
+  };
+  let clientInitialized = ignore;
+  const initialized = new Promise<void>((resolve) => {
+    clientInitialized = resolve;
+  });
+  const clientRequests: ClientRequestHandlers = {
+    async createMessage(params, signal) {
+      await initialized;
+      return server!.createMessage(params, { signal, timeout: RELAY_TIMEOUT_MS });
+    },
+    async elicit(params, signal) {
+      if (elicitation) {
+        await initialized;
+        return server!.elicitInput(params, { signal, timeout: RELAY_TIMEOUT_MS });
+      }
+      if (params.mode === "url") {
+        await (await ensureAppHostServer()).openUrl(params.url);
+        return { action: "accept" };
+      }
+      return (await ensureAppHostServer()).elicit(params, signal);
+    },
+    async listRoots(signal) {
+      await initialized;
+      return server!.listRoots(undefined, { signal, timeout: RELAY_TIMEOUT_MS });
+    },
+  };
+
+  const aggregator = await createAggregator(specs, {
+    tools: config.tools,
+    oauthHost: ensureAppHostServer,
+    clientRequests,
+    clientCapabilities,
+    onFatal: () => void shutdown(1),
+    onToolsChanged: () => void server?.sendToolListChanged().catch(ignore),
+    onResourcesChanged(upstream) {
+      uiResources.invalidate(upstream);
+      server?.sendResourceListChanged().catch(ignore);
+    },
+    onResourceUpdated(upstream, uri) {
+      uiResources.invalidate(upstream, uri);
+      // The cache's own subscriptions are none of the client's business
+      if (upstream.isSubscribed(uri, "client")) server?.sendResourceUpdated({ uri }).catch(ignore);
+    },
+    onPromptsChanged: () => void server?.sendPromptListChanged().catch(ignore),
+    onLogMessage: (_upstream, params) => void server?.sendLoggingMessage(params).catch(ignore),
+    onStatusChange: (upstream) => appHostServer?.updateUpstreamStatus(upstream),
+  });
+  connectedAggregator = aggregator;
+
+  if (config.uiResources?.prefetch) {
+    const prefetched = new Map<string, { upstream: UiResourceUpstream; uri: string }>();
+    for (const exposed of aggregator.listTools()) {
+      const uri = getToolUiResourceUri(exposed);
+      const upstream = aggregator.resolveTool(exposed.name)?.upstream;
+      if (uri && upstream) prefetched.set(`${upstream.name} ${uri}`, { upstream, uri });
+    }
+    void uiResources.prefetch([...prefetched.values()]);
+  }
+
+  // Use low-level Server to proxy raw JSON schemas without zod. Capabilities
+  // mirror what the upstreams advertised; tools are always on for app tools,
+  // and resources for app sessions.
+  server = new Server(IMPLEMENTATION, {
     capabilities: {
-      tools: {},
-      ...(hasResources ? { resources: {} } : {}),
+      tools: { listChanged: true },
+      resources: { listChanged: true, subscribe: true },
+      ...(aggregator.hasPrompts ? { prompts: { listChanged: true } } : {}),
+      ...(aggregator.hasCompletions ? { completions: {} } : {}),
+      ...(aggregator.hasLogging ? { logging: {} } : {}),
     },
   });
 
-  // Proxy listTools
+  // Answered by the upstreams, so a ping also checks they are reachable
+  server.setRequestHandler(PingRequestSchema, async () => {
+    await aggregator.ping();
+    return {};
+  });
+
+  // Proxy listTools; the shim's own tools shadow upstream tools of the same name
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: Array.from(tools.values()) };
+    const upstreamTools = aggregator.listTools().filter(t => !sessionTools?.has(t.name));
+    return { tools: [...upstreamTools, ...(sessionTools?.tools ?? [])] };
   });
 
   // Proxy callTool
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    log("Calling upstream tool:", name);
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    if (sessionTools?.has(name)) return sessionTools.call(name, request.params.arguments);
+    const route = aggregator.resolveTool(name);
+    if (!route) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+    const { upstream, tool, exposed } = route;
+    const args = applyToolArguments(request.params.arguments, route.override);
+    log(`Calling upstream tool: ${tool.name} (${upstream.name})`);
+
+    const uiResourceUri = getToolUiResourceUri(exposed);
+    const callUpstream = (onprogress?: (progress: Progress) => void) => {
+      // Cancelling downstream cancels upstream. Progress is always requested, as
+      // it extends the call's timeout, but only relayed if the client asked for it.
+      const progressToken = request.params._meta?.progressToken;
+      return upstream.callTool(tool.name, args, {
+        signal: extra.signal,
+        onprogress: (progress) => {
+          onprogress?.(progress);
+          if (progressToken === undefined) return;
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { ...progress, progressToken },
+          }).catch(ignore);
+        },
+      });
+    };
+    if (!uiResourceUri) return callUpstream();
 
-    const result = await upstream.callTool({ name, arguments: args }) as CallToolResult;
-    const tool = tools.get(name);
-    const uiResourceUri = tool ? getToolUiResourceUri(tool) : undefined;
+    const view = async (toolResult?: CallToolResult): Promise<AppView> => {
+      log("Tool has UI resource:", uiResourceUri);
+      return {
+        toolName: name,
+        ...await uiResources.get(upstream, uiResourceUri),
+        toolInput: args ?? {},
+        toolResult,
+        allowedTools: aggregator.appTools(upstream),
+        allowedMethods: appRequestMethods(upstream.capabilities),
+      };
+    };
 
-    if (uiResourceUri) {
+    // A snapshot can only be taken of the finished call
+    if (exportDir) {
+      const result = await callUpstream();
       try {
-        log("Tool has UI resource:", uiResourceUri);
-        const resource = await upstream.readResource({ uri: uiResourceUri });
-        const content = resource.contents[0];
-        const html = "blob" in content
-          ? Buffer.from(content.blob as string, "base64").toString("utf-8")
-          : (content as any).text as string;
-
-        if (html) {
-          if (!appHostServer) {
-            appHostServer = await startAppHostServer(upstream);
-          }
-          const url = await appHostServer.serveApp(html, args ?? {}, result);
-          log("Opened browser:", url);
-
-          const resultContent = Array.isArray(result.content) ? [...result.content] : [];
-          resultContent.push({
-            type: "text",
-            text: `\n\n🖼️ Interactive view opened in browser: ${url}`,
-          });
-          return { content: resultContent };
-        }
+        const path = await exportApp(exportDir, await view(result), upstream.name);
+        return withNote(result, `\n\n🖼️ Interactive view saved to: ${path}`);
       } catch (err) {
-        log("Failed to open app UI:", err);
+        log.error("Failed to export app UI:", err);
+        return withNote(result, `\n\n⚠️ The interactive view could not be shown: ${errorMessage(err)}`);
       }
     }
 
+    // The app is opened alongside the call, so it can show the tool input and
+    // progress while the upstream works, and gets the result when it arrives.
+    // Neither waits for the other: updates from before the app opened are held
+    // until it has.
+    let opened: { host: AppHostServer; served: ServedApp; note: string } | undefined;
+    let failure: string | undefined;
+    const held: ToolCallUpdate[] = [];
+    const update = (toolCallUpdate: ToolCallUpdate) => {
+      if (opened) opened.host.updateToolCall(opened.served.sessionId, opened.served.callId, toolCallUpdate);
+      else if (failure === undefined) held.push(toolCallUpdate);
+    };
+
+    // What the user did in this app's last session reaches the model with this
+    // result, whether or not the new view opens; it is found before the new
+    // session becomes the latest
+    const previousSession = appContexts.latest(upstream.name, uiResourceUri);
+    const call = callUpstream(progress => update({ type: "progress", progress })).then(
+      (result) => {
+        update({ type: "result", result });
+        return result;
+      },
+      (err: unknown) => {
+        update({ type: "cancelled", reason: extra.signal.aborted ? "Cancelled by the client" : errorMessage(err) });
+        throw err;
+      },
+    );
+    const opening = (async () => {
+      try {
+        const host = await ensureAppHostServer();
+        const served = await host.serveApp(await view(), upstream, reuseKey(upstream.name, uiResourceUri));
+        log("Opened browser:", served.url);
+        const contextUri = appContexts.open(served.sessionId, {
+          toolName: name,
+          upstreamName: upstream.name,
+          resourceUri: uiResourceUri,
+          url: served.url,
+        });
+        server?.sendResourceListChanged().catch(ignore);
+        const note = browser?.open === false
+          ? `\n\n🖼️ Open the interactive view in your browser:\n\n    ${served.url}\n\nMessages and context from the app: ${contextUri}`
+          : `\n\n🖼️ Interactive view opened in browser: ${served.url}\nMessages and context from the app: ${contextUri}`;
+        opened = { host, served, note };
+        for (const heldUpdate of held.splice(0)) update(heldUpdate);
+      } catch (err) {
+        log.error("Failed to open app UI:", err);
+        failure = errorMessage(err);
+        held.length = 0;
+      }
+    })();
+    const [result] = await Promise.all([call, opening]);
+
+    const unseen = previousSession ? appContexts.takeUnseen(previousSession) : [];
+    const withUnseen = { ...result, content: [...result.content, ...unseen] };
+    if (!opened) return withNote(withUnseen, `\n\n⚠️ The interactive view could not be shown: ${failure}`);
+    return withNote(withUnseen, opened.note);
+  });
+
+  // Proxy listResources; app session resources lead the first page
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = request.params?.cursor;
+    const result = aggregator.hasResources ? await aggregator.listResources(cursor) : { resources: [] };
+    return cursor ? result : { ...result, resources: [...appContexts.list(), ...result.resources] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
+    if (!aggregator.hasResources) return { resourceTemplates: [] };
+    return aggregator.listResourceTemplates(request.params?.cursor);
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const result = appContexts.read(request.params.uri) ?? await aggregator.readResource(request.params.uri);
     return result;
   });
 
-  // Proxy listResources
-  if (hasResources) {
-    server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      const result = await upstream.listResources();
-      return result;
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (appContexts.owns(uri)) sessionSubscriptions.add(uri);
+    else await aggregator.subscribeResource(uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!sessionSubscriptions.delete(uri)) await aggregator.unsubscribeResource(uri);
+    return {};
+  });
+
+  if (aggregator.hasPrompts) {
+    server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      return aggregator.listPrompts(request.params?.cursor);
     });
 
-    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const result = await upstream.readResource({ uri: request.params.uri });
-      return result;
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return aggregator.getPrompt(request.params);
     });
   }
 
-  // Connect stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (aggregator.hasCompletions) {
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      return aggregator.complete(request.params);
+    });
+  }
+
+  // Replaces the SDK's own handler: the upstreams filter their messages by level
+  if (aggregator.hasLogging) {
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      await aggregator.setLoggingLevel(request.params.level);
+      return {};
+    });
+  }
+
+  server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+    for (const upstream of aggregator.upstreams) upstream.client.sendRootsListChanged().catch(ignore);
+  });
+
+  // Connect stdio transport; the client's held-back initialize is answered now
+  server.onclose = () => void shutdown(0);
+  server.oninitialized = clientInitialized;
+  await server.connect(downstream.transport);
   log("Stdio MCP server ready");
+
+  process.on("SIGINT", () => void shutdown(0));
+  process.on("SIGTERM", () => void shutdown(0));
 }
 
 main().catch(err => {
+  if (err instanceof ConfigError) {
+    process.stderr.write(`${err.message}\n`);
+    process.exit(1);
+  }
   process.stderr.write(`Fatal: ${err}\n`);
   process.exit(1);
 });
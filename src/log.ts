@@ -0,0 +1,41 @@
+/**
+ * Leveled logging to stderr, shared by every module. stdout carries the MCP
+ * stdio protocol, so nothing here ever writes to it.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let threshold = LOG_LEVELS.indexOf("info");
+
+export function setLogLevel(level: LogLevel) {
+  threshold = LOG_LEVELS.indexOf(level);
+}
+
+/** Logs at info level when called directly. */
+export interface Logger {
+  (...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+function format(arg: unknown): string {
+  if (typeof arg === "string") return arg;
+  if (arg instanceof Error) return arg.message;
+  return JSON.stringify(arg);
+}
+
+export function createLogger(prefix: string): Logger {
+  function write(level: LogLevel, args: unknown[]) {
+    if (LOG_LEVELS.indexOf(level) < threshold) return;
+    process.stderr.write(`[${prefix}] ${args.map(format).join(" ")}\n`);
+  }
+
+  return Object.assign((...args: unknown[]) => write("info", args), {
+    debug: (...args: unknown[]) => write("debug", args),
+    warn: (...args: unknown[]) => write("warn", args),
+    error: (...args: unknown[]) => write("error", args),
+  });
+}
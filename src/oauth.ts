@@ -0,0 +1,172 @@
+/**
+ * OAuth authorization-code + PKCE for upstream servers.
+ *
+ * The SDK transports drive the protocol (discovery, dynamic client
+ * registration, token exchange and refresh); this module supplies the
+ * {@link OAuthClientProvider} they call into. The browser is sent to the
+ * authorization server and redirected back to the local host server, whose
+ * `/oauth/callback` route hands the code over. Client registrations and tokens
+ * are stored per upstream URL on disk so later runs skip the browser.
+ */
+
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { IMPLEMENTATION } from "./upstream.js";
+import { createLogger } from "./log.js";
+
+const log = createLogger("mcp-app-shim");
+
+/** How long to wait for the user to finish authorizing in the browser. */
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60_000;
+
+export const DEFAULT_TOKEN_DIR = join(homedir(), ".mcp-app-shim", "oauth");
+
+export interface OAuthOptions {
+  /** Pre-registered client ID; dynamic client registration is used when omitted. */
+  clientId?: string;
+  /** Env var holding the client secret for a confidential pre-registered client. */
+  clientSecretEnv?: string;
+  scopes?: string[];
+  /** Where client registrations and tokens are stored (default ~/.mcp-app-shim/oauth). */
+  tokenDir?: string;
+}
+
+/** The local server that receives the authorization redirect. */
+export interface OAuthCallbackHost {
+  readonly oauthRedirectUrl: string;
+  /** Resolves with the authorization code delivered for `state`. */
+  waitForOAuthCallback(state: string, timeoutMs: number): Promise<string>;
+  openUrl(url: string): Promise<void>;
+}
+
+export interface ShimOAuthProvider extends OAuthClientProvider {
+  /** Resolves once the user completes the redirect started by the transport. */
+  waitForAuthorizationCode(): Promise<string>;
+}
+
+interface StoredOAuthState {
+  serverUrl: string;
+  clientInformation?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  codeVerifier?: string;
+}
+
+export async function createOAuthProvider(
+  serverUrl: URL,
+  options: OAuthOptions,
+  host: OAuthCallbackHost,
+): Promise<ShimOAuthProvider> {
+  const tokenDir = options.tokenDir ?? DEFAULT_TOKEN_DIR;
+  const storePath = join(tokenDir, `${createHash("sha256").update(serverUrl.href).digest("hex").slice(0, 16)}.json`);
+  const redirectUrl = host.oauthRedirectUrl;
+
+  let clientSecret: string | undefined;
+  if (options.clientSecretEnv) {
+    clientSecret = process.env[options.clientSecretEnv];
+    if (!clientSecret) {
+      throw new Error(`Environment variable ${options.clientSecretEnv} (OAuth client secret for ${serverUrl.href}) is not set`);
+    }
+  }
+
+  let state: StoredOAuthState = { serverUrl: serverUrl.href };
+  try {
+    state = { ...JSON.parse(await readFile(storePath, "utf-8")), serverUrl: serverUrl.href };
+  } catch {
+    // First run for this upstream
+  }
+
+  async function persist() {
+    await mkdir(tokenDir, { recursive: true, mode: 0o700 });
+    await writeFile(storePath, JSON.stringify(state, null, 2), { mode: 0o600 });
+  }
+
+  let pendingCode: Promise<string> | undefined;
+
+  const clientMetadata: OAuthClientMetadata = {
+    client_name: IMPLEMENTATION.name,
+    redirect_uris: [redirectUrl],
+    grant_types: ["authorization_code", "refresh_token"],
+    response_types: ["code"],
+    token_endpoint_auth_method: clientSecret ? "client_secret_post" : "none",
+    ...(options.scopes ? { scope: options.scopes.join(" ") } : {}),
+  };
+
+  return {
+    get redirectUrl() {
+      return redirectUrl;
+    },
+
+    get clientMetadata() {
+      return clientMetadata;
+    },
+
+    state() {
+      return randomBytes(16).toString("hex");
+    },
+
+    clientInformation() {
+      if (options.clientId) {
+        return { client_id: options.clientId, ...(clientSecret ? { client_secret: clientSecret } : {}) };
+      }
+      // A registration made for a different redirect URL (e.g. another host port) is unusable
+      const registered = state.clientInformation as { redirect_uris?: string[] } | undefined;
+      if (registered?.redirect_uris && !registered.redirect_uris.includes(redirectUrl)) {
+        return undefined;
+      }
+      return state.clientInformation;
+    },
+
+    async saveClientInformation(clientInformation) {
+      state.clientInformation = clientInformation;
+      await persist();
+    },
+
+    tokens() {
+      return state.tokens;
+    },
+
+    async saveTokens(tokens) {
+      state.tokens = tokens;
+      await persist();
+    },
+
+    async redirectToAuthorization(authorizationUrl) {
+      const authState = authorizationUrl.searchParams.get("state") ?? "";
+      pendingCode = host.waitForOAuthCallback(authState, AUTHORIZATION_TIMEOUT_MS);
+      log(`Authorize ${serverUrl.href} in your browser:`, authorizationUrl.href);
+      await host.openUrl(authorizationUrl.href);
+    },
+
+    async saveCodeVerifier(codeVerifier) {
+      state.codeVerifier = codeVerifier;
+      await persist();
+    },
+
+    codeVerifier() {
+      if (!state.codeVerifier) throw new Error("No PKCE code verifier saved");
+      return state.codeVerifier;
+    },
+
+    async invalidateCredentials(scope) {
+      if (scope === "all" || scope === "client") delete state.clientInformation;
+      if (scope === "all" || scope === "tokens") delete state.tokens;
+      if (scope === "all" || scope === "verifier") delete state.codeVerifier;
+      await persist();
+    },
+
+    waitForAuthorizationCode() {
+      if (!pendingCode) {
+        return Promise.reject(new Error(`Upstream ${serverUrl.href} rejected authorization without starting an OAuth redirect`));
+      }
+      return pendingCode;
+    },
+  };
+}
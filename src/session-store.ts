@@ -0,0 +1,61 @@
+/**
+ * On-disk storage for app sessions, so apps opened in an earlier run can still
+ * be viewed after the shim restarts. One JSON file per session.
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { createLogger } from "./log.js";
+import type { AppView } from "./viewer-protocol.js";
+
+const log = createLogger("app-host");
+
+export const DEFAULT_SESSION_DIR = join(homedir(), ".mcp-app-shim", "sessions");
+
+export interface StoredSession extends AppView {
+  id: string;
+  upstreamName: string;
+  /** ISO timestamp of the tool call. */
+  createdAt: string;
+}
+
+export interface SessionStore {
+  /** All stored sessions; unreadable files are skipped. */
+  load(): Promise<StoredSession[]>;
+  save(session: StoredSession): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function createSessionStore(dir = DEFAULT_SESSION_DIR): SessionStore {
+  const pathOf = (id: string) => join(dir, `${id}.json`);
+
+  return {
+    async load() {
+      let files: string[];
+      try {
+        files = (await readdir(dir)).filter(file => file.endsWith(".json"));
+      } catch {
+        return [];
+      }
+      const sessions: StoredSession[] = [];
+      for (const file of files) {
+        try {
+          const session = JSON.parse(await readFile(join(dir, file), "utf-8")) as StoredSession;
+          // The ID names the file, so only ever accept IDs the viewer could have made
+          if (/^\w+$/.test(String(session.id)) && typeof session.html === "string") sessions.push(session);
+        } catch (err) {
+          log.warn(`Skipping unreadable session ${file}:`, err);
+        }
+      }
+      return sessions;
+    },
+    async save(session) {
+      await mkdir(dir, { recursive: true, mode: 0o700 });
+      await writeFile(pathOf(session.id), JSON.stringify(session), { mode: 0o600 });
+    },
+    async remove(id) {
+      await rm(pathOf(id), { force: true });
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * The shim's own tools for the app sessions it has open in the browser,
+ * listed alongside the upstream tools so the agent can see and manage them.
+ * Turned off with `tools.sessionTools: false` in the config file.
+ */
+
+import { ErrorCode, McpError, type CallToolResult, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { AppHostServer } from "./app-host-server.js";
+import type { AppContexts } from "./app-context.js";
+import { toolErrorResult, type AppSessionState } from "./viewer-protocol.js";
+
+export interface SessionTools {
+  readonly tools: Tool[];
+  has(name: string): boolean;
+  call(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult>;
+}
+
+const sessionIdInput: Tool["inputSchema"] = {
+  type: "object",
+  properties: {
+    sessionId: { type: "string", description: "Session ID, as returned by list_app_sessions" },
+  },
+  required: ["sessionId"],
+};
+
+const TOOLS: Tool[] = [
+  {
+    name: "list_app_sessions",
+    description: "Lists the interactive app views this server has opened in the browser, with their status.",
+    inputSchema: { type: "object", properties: {} },
+    annotations: { readOnlyHint: true, openWorldHint: false },
+  },
+  {
+    name: "get_app_session_state",
+    description: "Gets an app session's tool input and result (or why the call was cancelled), the latest model context and messages "
+      + "the app sent, and whether it is still open and connected.",
+    inputSchema: sessionIdInput,
+    annotations: { readOnlyHint: true, openWorldHint: false },
+  },
+  {
+    name: "close_app_session",
+    description: "Closes the browser tabs showing an app session. It can be reopened later.",
+    inputSchema: sessionIdInput,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  },
+  {
+    name: "reopen_app_session",
+    description: "Opens an app session in the browser again.",
+    inputSchema: sessionIdInput,
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+  },
+];
+
+function jsonResult(value: unknown): CallToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+}
+
+function summary(session: AppSessionState) {
+  const { sessionId, toolName, upstream, url, upstreamStatus, openTabs, createdAt } = session;
+  return {
+    sessionId,
+    tool: toolName,
+    upstream,
+    url,
+    status: openTabs > 0 ? "open" : "closed",
+    openTabs,
+    upstreamStatus,
+    createdAt,
+  };
+}
+
+/** `host` returns the app host server once it has started; before that there are no sessions. */
+export function createSessionTools(host: () => AppHostServer | undefined, contexts: AppContexts): SessionTools {
+  const names = new Set(TOOLS.map(t => t.name));
+
+  async function findSession(sessionId: string): Promise<AppSessionState | undefined> {
+    return (await host()?.listSessions())?.find(s => s.sessionId === sessionId);
+  }
+
+  return {
+    tools: TOOLS,
+
+    has(name) {
+      return names.has(name);
+    },
+
+    async call(name, args) {
+      if (name === "list_app_sessions") {
+        return jsonResult(((await host()?.listSessions()) ?? []).map(summary));
+      }
+
+      const sessionId = args?.sessionId;
+      if (typeof sessionId !== "string") {
+        throw new McpError(ErrorCode.InvalidParams, `${name} requires a string sessionId`);
+      }
+      const unknown = () => toolErrorResult(`Unknown app session: ${sessionId}`);
+
+      switch (name) {
+        case "get_app_session_state": {
+          const session = await findSession(sessionId);
+          if (!session) return unknown();
+          const { modelContext, messages = [] } = contexts.state(sessionId) ?? {};
+          return jsonResult({
+            ...summary(session),
+            toolInput: session.toolInput,
+            // Null while the tool is still running
+            toolResult: session.toolResult ?? null,
+            ...(session.toolCancelReason !== undefined ? { toolCancelReason: session.toolCancelReason } : {}),
+            modelContext: modelContext ?? null,
+            messages,
+          });
+        }
+        case "close_app_session": {
+          const closed = await host()?.closeSession(sessionId);
+          return closed ? jsonResult({ sessionId, status: "closed" }) : unknown();
+        }
+        case "reopen_app_session": {
+          const url = await host()?.reopenSession(sessionId);
+          return url ? jsonResult({ sessionId, url }) : unknown();
+        }
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+      }
+    },
+  };
+}
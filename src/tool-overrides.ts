@@ -0,0 +1,46 @@
+/**
+ * Per-tool overrides from `tools.overrides` in the config file, keyed by the
+ * tool's prefixed name: a new name and description for the MCP client, fixed
+ * and default arguments, and a UI resource switched off or swapped in.
+ *
+ * Fixed and default arguments are both removed from the exposed input schema.
+ * Fixed arguments always win over what the client sends, and the upstream sets
+ * them on apps' callServerTool calls too; defaults only fill in what the client
+ * left out. Otherwise overrides shape what the MCP client sees, and apps get
+ * the tools as the upstream declares them.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolOverride } from "./config.js";
+
+export type { ToolOverride };
+
+/** The tool as the MCP client sees it, named `exposedName`. */
+export function applyToolOverride(tool: Tool, exposedName: string, override: ToolOverride = {}): Tool {
+  const { arguments: fixed = {}, defaults = {}, ui } = override;
+  const exposed: Tool = { ...tool, name: override.name ?? exposedName };
+  if (override.description !== undefined) exposed.description = override.description;
+
+  if (Object.keys(fixed).length > 0 || Object.keys(defaults).length > 0) {
+    const properties = { ...tool.inputSchema.properties };
+    for (const key of [...Object.keys(fixed), ...Object.keys(defaults)]) delete properties[key];
+    const required = tool.inputSchema.required?.filter(key => !(key in fixed) && !(key in defaults));
+    exposed.inputSchema = { ...tool.inputSchema, properties, required };
+  }
+
+  if (ui !== undefined) {
+    const { "ui/resourceUri": _legacy, ...meta } = tool._meta ?? {};
+    const { resourceUri: _uri, ...uiMeta } = (meta.ui ?? {}) as Record<string, unknown>;
+    exposed._meta = { ...meta, ui: ui === false ? uiMeta : { ...uiMeta, resourceUri: ui } };
+  }
+  return exposed;
+}
+
+/** A call's arguments with the override's defaults filled in and fixed arguments set. */
+export function applyToolArguments(
+  args: Record<string, unknown> | undefined,
+  override: ToolOverride | undefined,
+): Record<string, unknown> | undefined {
+  if (!override?.arguments && !override?.defaults) return args;
+  return { ...override.defaults, ...args, ...override.arguments };
+}
@@ -0,0 +1,201 @@
+/**
+ * UI resources read once and reused across tool calls.
+ *
+ * An app's HTML rarely changes between calls of its tool, so each resource is
+ * kept per upstream for `ttl` ms, and optionally on disk so a shim restarted
+ * within the TTL does not read it again. A cached resource is dropped when its
+ * upstream sends `notifications/resources/updated` for it (the cache
+ * subscribes where the upstream supports it, alongside but apart from the MCP
+ * client), and an upstream's resources are all dropped when its resource list
+ * changes or it reconnects. Files are not revalidated: one older than the TTL
+ * is read again from the upstream.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { parseUiResourceSecurity, type UiResourceSecurity } from "./csp.js";
+import { describeUpstream, type Upstream } from "./upstream.js";
+import { createLogger } from "./log.js";
+
+const log = createLogger("mcp-app-shim");
+
+export const DEFAULT_UI_RESOURCE_DIR = join(homedir(), ".mcp-app-shim", "ui-resources");
+export const DEFAULT_UI_RESOURCE_TTL_MS = 10 * 60_000;
+
+/** An app's HTML and what its sandbox may do. */
+export interface UiResource extends UiResourceSecurity {
+  html: string;
+}
+
+export type UiResourceUpstream = Pick<Upstream, "name" | "spec" | "withClient" | "canSubscribe" | "subscribe">;
+
+export interface UiResourceCacheOptions {
+  /** How long a resource is reused, in ms; 0 reads it on every call. */
+  ttl?: number;
+  /** Also keep resources in this directory. */
+  dir?: string;
+}
+
+export interface UiResourceCache {
+  /** The resource from the cache, or read from the upstream (and cached). */
+  get(upstream: UiResourceUpstream, uri: string): Promise<UiResource>;
+  /** Reads resources ahead of their first tool call; failures are only logged. */
+  prefetch(resources: { upstream: UiResourceUpstream; uri: string }[]): Promise<void>;
+  /** Drops one of the upstream's resources, or all of them. */
+  invalidate(upstream: UiResourceUpstream, uri?: string): void;
+}
+
+interface CachedResource {
+  /** The upstream as `describeUpstream` puts it, so the files of different configs do not mix. */
+  upstream: string;
+  uri: string;
+  /** Epoch ms. */
+  fetchedAt: number;
+  resource: UiResource;
+}
+
+function isHtml(mimeType: string | undefined): boolean {
+  return mimeType === undefined || mimeType.split(";")[0].trim().toLowerCase() === "text/html";
+}
+
+/**
+ * The HTML among a resource's contents: the entry for the URI itself if there
+ * are several, whether it comes as text or as a base64 blob.
+ */
+export function parseUiResource(result: ReadResourceResult, uri: string): UiResource {
+  const { contents } = result;
+  if (contents.length === 0) throw new Error(`${uri} has no contents`);
+  const content = contents.find(c => c.uri === uri && isHtml(c.mimeType)) ?? contents.find(c => isHtml(c.mimeType));
+  const html = !content ? ""
+    : "text" in content ? content.text as string
+    : Buffer.from(content.blob as string, "base64").toString("utf-8");
+  if (!html) throw new Error(`${uri} has no HTML content`);
+  return { html, ...parseUiResourceSecurity(content!._meta?.ui, uri) };
+}
+
+export function createUiResourceCache(options: UiResourceCacheOptions = {}): UiResourceCache {
+  const { ttl = DEFAULT_UI_RESOURCE_TTL_MS, dir } = options;
+  const entries = new Map<string, CachedResource>();
+  const reads = new Map<string, Promise<UiResource>>();
+  const subscribed = new Set<string>();
+  // Files written before an upstream's resources were all dropped are stale
+  const invalidatedAt = new Map<string, number>();
+  // Counts invalidations, so a read that was running meanwhile is not cached
+  let generation = 0;
+  // Writes and removals of each upstream's files, in order; reads wait for them
+  const diskWrites = new Map<string, Promise<void>>();
+
+  const keyOf = (upstreamName: string, uri: string) => `${upstreamName} ${uri}`;
+  const pathOf = (entry: Pick<CachedResource, "upstream" | "uri">) =>
+    join(dir!, `${createHash("sha256").update(`${entry.upstream} ${entry.uri}`).digest("hex").slice(0, 32)}.json`);
+
+  function isFresh(entry: CachedResource, upstreamName: string): boolean {
+    return Date.now() - entry.fetchedAt < ttl && entry.fetchedAt >= (invalidatedAt.get(upstreamName) ?? 0);
+  }
+
+  function queueDiskWrite(upstreamName: string, write: () => Promise<void>) {
+    const queued = (diskWrites.get(upstreamName) ?? Promise.resolve()).then(write);
+    diskWrites.set(upstreamName, queued);
+    queued.finally(() => {
+      if (diskWrites.get(upstreamName) === queued) diskWrites.delete(upstreamName);
+    });
+  }
+
+  async function loadFile(upstream: UiResourceUpstream, uri: string): Promise<CachedResource | undefined> {
+    const path = pathOf({ upstream: describeUpstream(upstream.spec), uri });
+    await diskWrites.get(upstream.name);
+    try {
+      const entry = JSON.parse(await readFile(path, "utf-8")) as CachedResource;
+      if (entry.uri === uri && typeof entry.resource?.html === "string" && isFresh(entry, upstream.name)) return entry;
+      await rm(path, { force: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") log.warn(`Ignoring unreadable cached ${uri}:`, err);
+    }
+    return undefined;
+  }
+
+  // Updates are what keeps a cached resource current; without them only the TTL does
+  function subscribe(upstream: UiResourceUpstream, uri: string) {
+    const key = keyOf(upstream.name, uri);
+    if (!upstream.canSubscribe || subscribed.has(key)) return;
+    subscribed.add(key);
+    upstream.subscribe(uri, "cache").catch((err) => {
+      subscribed.delete(key);
+      log.warn(`Could not subscribe to ${uri} on ${upstream.name}:`, err);
+    });
+  }
+
+  function saveFile(upstreamName: string, entry: CachedResource) {
+    queueDiskWrite(upstreamName, () => mkdir(dir!, { recursive: true, mode: 0o700 })
+      .then(() => writeFile(pathOf(entry), JSON.stringify(entry), { mode: 0o600 }))
+      .catch(err => log.warn(`Could not cache ${entry.uri} on disk:`, err)));
+  }
+
+  async function readUpstream(upstream: UiResourceUpstream, uri: string): Promise<UiResource> {
+    return parseUiResource(await upstream.withClient(client => client.readResource({ uri })), uri);
+  }
+
+  const cache: UiResourceCache = {
+    async get(upstream, uri) {
+      if (ttl <= 0) return readUpstream(upstream, uri);
+
+      const key = keyOf(upstream.name, uri);
+      const cached = entries.get(key);
+      if (cached && isFresh(cached, upstream.name)) return cached.resource;
+
+      // Concurrent calls share one read
+      let pending = reads.get(key);
+      if (!pending) {
+        const startedIn = generation;
+        const read = (async () => {
+          subscribe(upstream, uri);
+          const stored = dir ? await loadFile(upstream, uri) : undefined;
+          const fetchedAt = Date.now();
+          const entry = stored
+            ?? { upstream: describeUpstream(upstream.spec), uri, fetchedAt, resource: await readUpstream(upstream, uri) };
+          if (generation === startedIn) {
+            entries.set(key, entry);
+            if (dir && !stored) saveFile(upstream.name, entry);
+          }
+          return entry.resource;
+        })().finally(() => {
+          if (reads.get(key) === read) reads.delete(key);
+        });
+        reads.set(key, read);
+        pending = read;
+      }
+      return pending;
+    },
+
+    async prefetch(resources) {
+      await Promise.all(resources.map(async ({ upstream, uri }) => {
+        try {
+          await cache.get(upstream, uri);
+          log(`Prefetched ${uri} from ${upstream.name}`);
+        } catch (err) {
+          log.warn(`Could not prefetch ${uri} from ${upstream.name}:`, err);
+        }
+      }));
+    },
+
+    invalidate(upstream, uri) {
+      generation++;
+      if (uri === undefined) invalidatedAt.set(upstream.name, Date.now());
+      else if (dir) {
+        const path = pathOf({ upstream: describeUpstream(upstream.spec), uri });
+        queueDiskWrite(upstream.name, () => rm(path, { force: true }).catch(() => {}));
+      }
+      const prefix = keyOf(upstream.name, "");
+      for (const key of [...entries.keys(), ...reads.keys()]) {
+        if (uri === undefined ? key.startsWith(prefix) : key === keyOf(upstream.name, uri)) {
+          entries.delete(key);
+          reads.delete(key);
+        }
+      }
+    },
+  };
+  return cache;
+}
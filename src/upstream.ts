@@ -0,0 +1,622 @@
+/**
+ * Connections to the upstream MCP App server.
+ *
+ * Remote servers are reached over Streamable HTTP with an SSE fallback. Local
+ * servers are spawned as a child process speaking MCP over stdio; the child's
+ * stderr is forwarded line by line into the shim's own log.
+ *
+ * An {@link Upstream} wraps one such connection together with its discovered
+ * tools and keeps them current on `tools/list_changed`. A lost connection —
+ * noticed when it closes, a request fails or a periodic ping goes unanswered —
+ * is re-established with backoff (resuming the Streamable HTTP session when
+ * the server still has it, respawning a stdio child), and calls made meanwhile
+ * wait for it.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  PromptListChangedNotificationSchema,
+  LoggingMessageNotificationSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  McpError,
+  ErrorCode,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  type ElicitRequest,
+  type ElicitResult,
+  type ListRootsResult,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+  type CallToolResult,
+  type ClientCapabilities,
+  type Progress,
+  type ServerCapabilities,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { basename } from "node:path";
+import { createLogger } from "./log.js";
+import {
+  createOAuthProvider,
+  type OAuthCallbackHost,
+  type OAuthOptions,
+  type ShimOAuthProvider,
+} from "./oauth.js";
+
+export const IMPLEMENTATION = { name: "mcp-app-shim", version: "0.1.0" };
+
+/** Consecutive restarts of a crashed stdio upstream before giving up on it. */
+const MAX_RESTARTS = 3;
+/** A child that stays up this long is considered healthy again. */
+const RESTART_RESET_MS = 60_000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 10_000;
+/** How long calls wait for a reconnecting upstream before failing. */
+const QUEUE_TIMEOUT_MS = 30_000;
+
+export type UpstreamSpec = HttpUpstreamSpec | StdioUpstreamSpec;
+
+interface UpstreamSpecBase {
+  /** Identifies the upstream in logs; defaults to the URL host or command name. */
+  name?: string;
+  /** Prepended to tool names exposed downstream; see createAggregator. */
+  prefix?: string;
+}
+
+export interface HttpUpstreamSpec extends UpstreamSpecBase {
+  type: "http";
+  url: URL;
+  /** "auto" (the default) tries Streamable HTTP first, then SSE. */
+  transport?: HttpTransportPreference;
+  /** Static headers sent with every request. */
+  headers?: Record<string, string>;
+  auth?: UpstreamAuth;
+}
+
+export type HttpTransportPreference = "auto" | "streamable-http" | "sse";
+
+export type UpstreamAuth =
+  | { type: "bearer"; /** Env var holding the token. */ tokenEnv: string }
+  | ({ type: "oauth" } & OAuthOptions);
+
+export interface StdioUpstreamSpec extends UpstreamSpecBase {
+  type: "stdio";
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+const log = createLogger("mcp-app-shim");
+const upstreamLog = createLogger("upstream");
+
+export type UpstreamStatus = "connected" | "reconnecting" | "closed";
+
+/** Who wants updates for a resource: the MCP client, or the shim's UI resource cache. */
+export type SubscriptionOwner = "client" | "cache";
+
+export interface ToolCallOptions {
+  /** Aborting cancels the call upstream. */
+  signal?: AbortSignal;
+  onprogress?: (progress: Progress) => void;
+}
+
+export interface Upstream {
+  readonly name: string;
+  readonly spec: UpstreamSpec;
+  /** Current client; replaced when a stdio upstream is restarted. */
+  readonly client: Client;
+  readonly status: UpstreamStatus;
+  /**
+   * Runs `fn` with the connected client. While the upstream is reconnecting,
+   * waits for it for a bounded time before failing with an MCP error.
+   */
+  withClient<T>(fn: (client: Client) => Promise<T>): Promise<T>;
+  /** Calls a tool by its upstream name, with the tool's configured timeout and fixed arguments. */
+  callTool(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    options?: ToolCallOptions,
+  ): Promise<CallToolResult>;
+  /** Tools discovered on the upstream, keyed by their upstream (unprefixed) name. */
+  readonly tools: Map<string, Tool>;
+  readonly hasResources: boolean;
+  /** What the upstream advertised during initialize. */
+  readonly capabilities: ServerCapabilities;
+  /** Whether the upstream supports resources/subscribe. */
+  readonly canSubscribe: boolean;
+  /**
+   * Subscriptions are counted by owner, so the upstream subscription lasts
+   * until its last owner unsubscribes, and are renewed if the upstream restarts.
+   */
+  subscribe(uri: string, owner: SubscriptionOwner): Promise<void>;
+  unsubscribe(uri: string, owner: SubscriptionOwner): Promise<void>;
+  isSubscribed(uri: string, owner: SubscriptionOwner): boolean;
+  /** Like subscriptions, the level is re-applied after a restart. */
+  setLoggingLevel(level: LoggingLevel): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Answers requests the upstream server sends to its client. */
+export interface ClientRequestHandlers {
+  createMessage(params: CreateMessageRequest["params"], signal: AbortSignal): Promise<CreateMessageResult>;
+  elicit(params: ElicitRequest["params"], signal: AbortSignal): Promise<ElicitResult>;
+  listRoots(signal: AbortSignal): Promise<ListRootsResult>;
+}
+
+export interface ConnectOptions {
+  /** Started on demand for OAuth upstreams, to receive the authorization redirect. */
+  oauthHost?: () => Promise<OAuthCallbackHost>;
+  /** Answers the upstream's sampling, elicitation and roots requests. */
+  clientRequests?: ClientRequestHandlers;
+  /**
+   * What the shim advertises to the upstream; only the sampling, elicitation
+   * and roots it names are passed to `clientRequests`.
+   */
+  clientCapabilities?: ClientCapabilities;
+}
+
+export interface StartUpstreamOptions extends ConnectOptions {
+  /** Called when the upstream is gone for good (e.g. it kept crashing). */
+  onFatal(upstream: Upstream): void;
+  /** Called after the upstream's tools were re-fetched. */
+  onToolsChanged?(upstream: Upstream): void;
+  onResourcesChanged?(upstream: Upstream): void;
+  onResourceUpdated?(upstream: Upstream, uri: string): void;
+  onPromptsChanged?(upstream: Upstream): void;
+  /** Timeout in ms for a tool, by its upstream name; the SDK default when undefined. */
+  toolTimeout?(toolName: string): number | undefined;
+  /** Arguments set on every call of a tool, by its upstream name, over what the caller sent. */
+  fixedArguments?(toolName: string): Record<string, unknown> | undefined;
+  /** Called when the upstream starts or finishes reconnecting. */
+  onStatusChange?(upstream: Upstream): void;
+  /** Called for each notifications/message the upstream sends. */
+  onLogMessage?(upstream: Upstream, params: LoggingMessageNotification["params"]): void;
+}
+
+export function defaultUpstreamName(spec: UpstreamSpec): string {
+  const raw = spec.type === "stdio" ? basename(spec.command) : spec.url.hostname;
+  return raw.replace(/[^A-Za-z0-9_-]+/g, "_") || "upstream";
+}
+
+export function describeUpstream(spec: UpstreamSpec): string {
+  return spec.type === "stdio"
+    ? [spec.command, ...spec.args].join(" ")
+    : spec.url.href;
+}
+
+export async function connectToUpstream(spec: UpstreamSpec, options: ConnectOptions = {}): Promise<Client> {
+  return spec.type === "stdio" ? connectStdio(spec, options) : connectHttp(spec, options);
+}
+
+function createClient({ clientRequests, clientCapabilities: capabilities = {} }: ConnectOptions): Client {
+  if (!clientRequests) return new Client(IMPLEMENTATION);
+
+  // Requests the upstream was not offered are answered with MethodNotFound by the SDK
+  const client = new Client(IMPLEMENTATION, { capabilities });
+  if (capabilities.sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      clientRequests.createMessage(request.params, extra.signal));
+  }
+  if (capabilities.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      clientRequests.elicit(request.params, extra.signal));
+  }
+  if (capabilities.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, (_request, extra) =>
+      clientRequests.listRoots(extra.signal));
+  }
+  return client;
+}
+
+function buildHeaders(spec: HttpUpstreamSpec): Record<string, string> {
+  const headers = { ...spec.headers };
+  if (spec.auth?.type === "bearer") {
+    const token = process.env[spec.auth.tokenEnv];
+    if (!token) {
+      throw new Error(`Environment variable ${spec.auth.tokenEnv} (bearer token for ${spec.url.href}) is not set`);
+    }
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+async function httpTransportOptions(spec: HttpUpstreamSpec, options: ConnectOptions) {
+  let authProvider: ShimOAuthProvider | undefined;
+  if (spec.auth?.type === "oauth") {
+    if (!options.oauthHost) throw new Error(`OAuth upstream ${spec.url.href} needs a callback host`);
+    authProvider = await createOAuthProvider(spec.url, spec.auth, await options.oauthHost());
+  }
+  return { requestInit: { headers: buildHeaders(spec) }, authProvider };
+}
+
+async function connectHttp(spec: HttpUpstreamSpec, options: ConnectOptions): Promise<Client> {
+  const { url } = spec;
+  const preference = spec.transport ?? "auto";
+  const transportOptions = await httpTransportOptions(spec, options);
+  const { authProvider } = transportOptions;
+
+  if (preference !== "sse") {
+    try {
+      const client = await connectAuthorized(
+        () => new StreamableHTTPClientTransport(url, transportOptions),
+        authProvider,
+        options,
+      );
+      log("Connected via Streamable HTTP");
+      return client;
+    } catch (err) {
+      // A server that rejects our credentials will not accept them over SSE either
+      if (preference === "streamable-http" || err instanceof UnauthorizedError) {
+        throw new Error(`Could not connect to upstream: ${err}`);
+      }
+      log("Streamable HTTP failed, trying SSE...");
+    }
+  }
+
+  try {
+    const client = await connectAuthorized(
+      () => new SSEClientTransport(url, transportOptions),
+      authProvider,
+      options,
+    );
+    log("Connected via SSE");
+    return client;
+  } catch (err) {
+    throw new Error(`Could not connect to upstream: ${err}`);
+  }
+}
+
+/**
+ * Connects, and if the server demands OAuth authorization, waits for the user
+ * to complete it in the browser and connects again with the new tokens.
+ */
+async function connectAuthorized(
+  createTransport: () => StreamableHTTPClientTransport | SSEClientTransport,
+  authProvider: ShimOAuthProvider | undefined,
+  options: ConnectOptions,
+): Promise<Client> {
+  const transport = createTransport();
+  const client = createClient(options);
+  try {
+    await client.connect(transport);
+    return client;
+  } catch (err) {
+    await client.close().catch(() => {});
+    if (!(err instanceof UnauthorizedError) || !authProvider) throw err;
+    log("Upstream requires authorization; waiting for the OAuth redirect...");
+    await transport.finishAuth(await authProvider.waitForAuthorizationCode());
+  }
+
+  const authorized = createClient(options);
+  await authorized.connect(createTransport());
+  return authorized;
+}
+
+/**
+ * Reattaches `client` to its Streamable HTTP session. Returns false if the
+ * server no longer knows the session, in which case the client is closed.
+ */
+async function resumeHttpSession(
+  client: Client,
+  spec: HttpUpstreamSpec,
+  previous: StreamableHTTPClientTransport,
+  options: ConnectOptions,
+): Promise<boolean> {
+  const transport = new StreamableHTTPClientTransport(spec.url, {
+    ...await httpTransportOptions(spec, options),
+    sessionId: previous.sessionId,
+  });
+  if (previous.protocolVersion) transport.setProtocolVersion(previous.protocolVersion);
+  try {
+    // With a session ID set, connect() skips initialize and keeps the
+    // capabilities negotiated before
+    await client.connect(transport);
+    await client.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+    return true;
+  } catch {
+    await client.close().catch(() => {});
+    return false;
+  }
+}
+
+async function connectStdio(spec: StdioUpstreamSpec, options: ConnectOptions): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: spec.command,
+    args: spec.args,
+    env: { ...getDefaultEnvironment(), ...spec.env },
+    cwd: spec.cwd,
+    stderr: "pipe",
+  });
+
+  // The stderr stream exists before start(), so early crash output is not lost
+  const stderr = transport.stderr as Readable | null;
+  if (stderr) {
+    createInterface({ input: stderr }).on("line", (line) => {
+      upstreamLog(line);
+    });
+  }
+
+  try {
+    const client = createClient(options);
+    await client.connect(transport);
+    log(`Connected via stdio (pid ${transport.pid})`);
+    return client;
+  } catch (err) {
+    await transport.close().catch(() => {});
+    throw new Error(`Could not start upstream process: ${err}`);
+  }
+}
+
+export async function startUpstream(
+  name: string,
+  spec: UpstreamSpec,
+  options: StartUpstreamOptions,
+): Promise<Upstream> {
+  log(`Connecting to upstream ${name}:`, describeUpstream(spec));
+  let client = await connectToUpstream(spec, options);
+  let connectedAt = Date.now();
+  let restarts = 0;
+  let closing = false;
+  let status: UpstreamStatus = "connected";
+  // Settles when a reconnection ends, successfully or not
+  let reconnecting: Promise<void> = Promise.resolve();
+  const tools = new Map<string, Tool>();
+  const subscriptions = new Map<string, Set<SubscriptionOwner>>();
+  let loggingLevel: LoggingLevel | undefined;
+
+  async function refreshTools() {
+    const discovered: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      discovered.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    tools.clear();
+    for (const tool of discovered) tools.set(tool.name, tool);
+    log(`Discovered tools on ${name}:`, Array.from(tools.keys()));
+  }
+  await refreshTools();
+
+  // Re-registered on every (re)connected client
+  function watch(current: typeof client) {
+    current.onclose = () => reconnect("connection closed");
+    current.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      try {
+        await refreshTools();
+        options.onToolsChanged?.(upstream);
+      } catch (err) {
+        log.error(`Failed to refresh tools on ${name}:`, err);
+      }
+    });
+    current.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      options.onResourcesChanged?.(upstream);
+    });
+    current.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      options.onResourceUpdated?.(upstream, notification.params.uri);
+    });
+    current.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      options.onPromptsChanged?.(upstream);
+    });
+    current.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      options.onLogMessage?.(upstream, notification.params);
+    });
+  }
+
+  // Probed again after reconnecting, as a fresh session may differ
+  let hasResources = false;
+  async function probeResources() {
+    try {
+      await client.listResources();
+      hasResources = true;
+      log(`Upstream ${name} supports resources`);
+    } catch {
+      hasResources = false;
+      log(`No resources endpoint on ${name} (ok)`);
+    }
+  }
+  await probeResources();
+
+  function setStatus(next: UpstreamStatus) {
+    status = next;
+    options.onStatusChange?.(upstream);
+  }
+
+  // Resumes the Streamable HTTP session if the server still knows it, and
+  // otherwise connects (or, for stdio, respawns the child) from scratch
+  async function reestablish() {
+    const previous = client;
+    const transport = previous.transport;
+    await previous.close().catch(() => {});
+
+    if (spec.type === "http" && transport instanceof StreamableHTTPClientTransport && transport.sessionId) {
+      if (await resumeHttpSession(previous, spec, transport, options)) {
+        log(`Resumed session ${transport.sessionId} on ${name}`);
+        return;
+      }
+    }
+    client = await connectToUpstream(spec, options);
+  }
+
+  // HTTP upstreams are retried with backoff until they come back. A stdio
+  // upstream is respawned a few times before it is given up.
+  function reconnect(reason: string) {
+    if (closing || status !== "connected") return;
+    setStatus("reconnecting");
+    log.warn(`Lost upstream ${name} (${reason}); reconnecting...`);
+
+    reconnecting = (async () => {
+      if (Date.now() - connectedAt > RESTART_RESET_MS) restarts = 0;
+
+      for (let attempt = 0; !closing; attempt++) {
+        if (spec.type === "stdio" && restarts++ >= MAX_RESTARTS) {
+          log(`Upstream ${name} exited; giving up after ${MAX_RESTARTS} restarts`);
+          break;
+        }
+        if (attempt > 0) {
+          await sleep(Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS));
+          if (closing) break;
+        }
+
+        try {
+          await reestablish();
+          connectedAt = Date.now();
+          watch(client);
+          await refreshTools();
+          await probeResources();
+          for (const uri of subscriptions.keys()) await client.subscribeResource({ uri });
+          if (loggingLevel) await client.setLoggingLevel(loggingLevel);
+        } catch (err) {
+          log.warn(`Reconnecting to upstream ${name} failed:`, err);
+          continue;
+        }
+
+        log(`Reconnected to upstream ${name}`);
+        setStatus("connected");
+        options.onToolsChanged?.(upstream);
+        options.onResourcesChanged?.(upstream);
+        options.onPromptsChanged?.(upstream);
+        return;
+      }
+
+      setStatus("closed");
+      if (!closing) options.onFatal(upstream);
+    })();
+  }
+  watch(client);
+
+  // Pings an idle connection so a dead one is noticed before the next call
+  async function checkHealth() {
+    if (status !== "connected") return;
+    const current = client;
+    try {
+      await current.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+    } catch (err) {
+      if (current === client) reconnect(`ping failed: ${(err as Error).message}`);
+    }
+  }
+  const healthCheck = setInterval(() => void checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+  healthCheck.unref();
+
+  function currentClient(): Client {
+    if (status === "connected") return client;
+    throw new McpError(ErrorCode.ConnectionClosed, status === "closed"
+      ? `Upstream ${name} is unavailable`
+      : `Upstream ${name} is reconnecting; try again shortly`);
+  }
+
+  async function connected(): Promise<Client> {
+    if (status === "reconnecting") {
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, QUEUE_TIMEOUT_MS);
+      });
+      await Promise.race([reconnecting, timedOut]);
+      clearTimeout(timer);
+    }
+    return currentClient();
+  }
+
+  const upstream: Upstream = {
+    name,
+    spec,
+    get client() { return client; },
+    get status() { return status; },
+    tools,
+    get hasResources() { return hasResources; },
+    get capabilities() {
+      return client.getServerCapabilities() ?? {};
+    },
+    get canSubscribe() {
+      return Boolean(client.getServerCapabilities()?.resources?.subscribe);
+    },
+    async withClient(fn) {
+      const current = await connected();
+      try {
+        return await fn(current);
+      } catch (err) {
+        if (!isConnectionError(err)) throw err;
+        // Later calls wait for the reconnection this may start
+        await checkHealth();
+        if (status === "connected") throw err;
+        throw new McpError(ErrorCode.ConnectionClosed, `Lost connection to upstream ${name} (${(err as Error).message}); reconnecting`);
+      }
+    },
+    async callTool(toolName, args, { signal, onprogress } = {}) {
+      const timeout = options.toolTimeout?.(toolName);
+      // Whoever calls, the MCP client or an app, cannot change these
+      const fixed = options.fixedArguments?.(toolName);
+      const toolArgs = fixed ? { ...args, ...fixed } : args;
+      return await upstream.withClient(async (current) => {
+        try {
+          return await current.callTool({ name: toolName, arguments: toolArgs }, undefined, {
+            signal,
+            onprogress,
+            // Progress shows the tool is still working, with or without a configured timeout
+            timeout,
+            resetTimeoutOnProgress: true,
+          }) as CallToolResult;
+        } catch (err) {
+          // The SDK reports cancellation as a timeout, which would look like a lost connection
+          if (signal?.aborted) throw Object.assign(new Error(`Tool call cancelled: ${toolName}`), { name: "AbortError" });
+          throw err;
+        }
+      });
+    },
+    async subscribe(uri, owner) {
+      const owners = subscriptions.get(uri);
+      if (owners) {
+        owners.add(owner);
+        return;
+      }
+      await upstream.withClient(current => current.subscribeResource({ uri }));
+      subscriptions.set(uri, new Set([...subscriptions.get(uri) ?? [], owner]));
+    },
+    async unsubscribe(uri, owner) {
+      const owners = subscriptions.get(uri);
+      if (!owners?.delete(owner) || owners.size > 0) return;
+      subscriptions.delete(uri);
+      await upstream.withClient(current => current.unsubscribeResource({ uri }));
+    },
+    isSubscribed(uri, owner) {
+      return subscriptions.get(uri)?.has(owner) ?? false;
+    },
+    async setLoggingLevel(level) {
+      loggingLevel = level;
+      await upstream.withClient(current => current.setLoggingLevel(level));
+    },
+    async close() {
+      closing = true;
+      clearInterval(healthCheck);
+      await client.close().catch(() => {});
+    },
+  };
+  return upstream;
+}
+
+/**
+ * Whether a failed request may mean the connection is gone. Errors the server
+ * answered with, and cancellations, say nothing about it.
+ */
+function isConnectionError(err: unknown): boolean {
+  if (!(err instanceof Error) || err.name === "AbortError") return false;
+  return !(err instanceof McpError) || err.code === ErrorCode.RequestTimeout || err.code === ErrorCode.ConnectionClosed;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
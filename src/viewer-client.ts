@@ -0,0 +1,281 @@
+/**
+ * Registers this instance's app sessions with another shim instance's viewer.
+ *
+ * Used when the preferred host port is already served by a shim viewer: the
+ * apps open on that origin, while callServerTool requests and OAuth callbacks
+ * are sent back here over the control channel to reach our own upstreams.
+ */
+
+import { WebSocket } from "ws";
+import { ErrorCode, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "./log.js";
+import { openBrowser } from "./browser.js";
+import type { BrowserConfig } from "./config.js";
+import type { AppHostOptions, ServedApp, ViewerBackend } from "./app-host-server.js";
+import {
+  VIEWER_PROTOCOL_VERSION,
+  relayAppRequest,
+  rpcError,
+  toRpcError,
+  type AppReply,
+  type AppSessionState,
+  type AppUpstream,
+  type ControlEvent,
+  type ControlRequest,
+  type ViewerInfo,
+} from "./viewer-protocol.js";
+
+const log = createLogger("app-host");
+
+const PROBE_TIMEOUT_MS = 1000;
+
+interface Waiter<T> {
+  resolve(value: T): void;
+  reject(err: Error): void;
+}
+
+/** Returns the viewer's info if a compatible shim viewer is serving `hostPort`. */
+export async function probeViewer(hostPort: number): Promise<ViewerInfo | undefined> {
+  try {
+    const response = await fetch(`http://localhost:${hostPort}/shim/info`, {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    if (!response.ok) return undefined;
+    const info = await response.json() as Partial<ViewerInfo>;
+    return info.app === "mcp-app-shim" && info.protocol === VIEWER_PROTOCOL_VERSION
+      ? info as ViewerInfo
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Connects to the shim viewer on `hostPort`, or returns undefined if there is none. */
+export async function connectToViewer(
+  hostPort: number,
+  browser: BrowserConfig,
+  onAppMessage?: AppHostOptions["onAppMessage"],
+  onSessionEnded?: AppHostOptions["onSessionEnded"],
+): Promise<ViewerBackend | undefined> {
+  const info = await probeViewer(hostPort);
+  if (!info) return undefined;
+
+  const ws = new WebSocket(`ws://localhost:${info.hostPort}/control`);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+  } catch (err) {
+    log.warn("Could not connect to the shared viewer:", err);
+    return undefined;
+  }
+  log(`Sharing the viewer at http://localhost:${info.hostPort}`);
+
+  let alive = true;
+  let requestCounter = 0;
+  const sessions = new Map<string, AppUpstream>();
+  const registrations = new Map<string, Waiter<ServedApp & { reused?: boolean }>>();
+  const oauthWaiters = new Map<string, Waiter<string>>();
+  const elicitationWaiters = new Map<string, Waiter<ElicitResult>>();
+  const sessionListWaiters = new Map<string, Waiter<AppSessionState[]>>();
+  const closeWaiters = new Map<string, Waiter<boolean>>();
+  const teardownWaiters = new Map<string, () => void>();
+  // callServerTool requests the viewer forwarded to us, by its request ID
+  const calls = new Map<string, AbortController>();
+
+  function send(request: ControlRequest) {
+    ws.send(JSON.stringify(request));
+  }
+
+  function listSessions(): Promise<AppSessionState[]> {
+    const requestId = String(++requestCounter);
+    return new Promise<AppSessionState[]>((resolve, reject) => {
+      sessionListWaiters.set(requestId, { resolve, reject });
+      send({ type: "list-sessions", requestId });
+    });
+  }
+
+  ws.on("message", async (data) => {
+    let event: ControlEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    switch (event.type) {
+      case "session-registered": {
+        registrations.get(event.requestId)?.resolve(event);
+        registrations.delete(event.requestId);
+        break;
+      }
+      case "app-request": {
+        const { requestId } = event;
+        const upstream = sessions.get(event.sessionId);
+        const controller = new AbortController();
+        calls.set(requestId, controller);
+        let reply: AppReply;
+        try {
+          reply = upstream
+            ? await relayAppRequest(upstream, event.request, {
+              signal: controller.signal,
+              onprogress: (progress) => {
+                if (ws.readyState === WebSocket.OPEN) send({ type: "tool-progress", requestId, progress });
+              },
+            })
+            : rpcError(ErrorCode.InvalidParams, `Unknown session: ${event.sessionId}`);
+        } catch (err) {
+          log.error(`${event.request.method} from an app failed:`, err);
+          reply = toRpcError(err);
+        }
+        calls.delete(requestId);
+        if (ws.readyState === WebSocket.OPEN && !controller.signal.aborted) {
+          send({ type: "app-response", requestId, ...reply });
+        }
+        break;
+      }
+      case "cancel-app-request": {
+        calls.get(event.requestId)?.abort();
+        calls.delete(event.requestId);
+        break;
+      }
+      case "oauth-callback": {
+        const waiter = oauthWaiters.get(event.state);
+        oauthWaiters.delete(event.state);
+        if (event.code) waiter?.resolve(event.code);
+        else waiter?.reject(new Error(event.error ?? "Authorization failed"));
+        break;
+      }
+      case "elicitation-opened": {
+        if (elicitationWaiters.has(event.requestId)) {
+          await openBrowser(event.url, browser).catch((err) => log.error("Failed to open browser:", err));
+        }
+        break;
+      }
+      case "session-list": {
+        sessionListWaiters.get(event.requestId)?.resolve(event.sessions);
+        sessionListWaiters.delete(event.requestId);
+        break;
+      }
+      case "session-closed": {
+        closeWaiters.get(event.requestId)?.resolve(event.closed);
+        closeWaiters.delete(event.requestId);
+        break;
+      }
+      case "app-message": {
+        if (sessions.has(event.sessionId)) onAppMessage?.(event.sessionId, event.message);
+        break;
+      }
+      case "session-ended": {
+        if (sessions.delete(event.sessionId)) onSessionEnded?.(event.sessionId);
+        break;
+      }
+      case "sessions-torn-down": {
+        teardownWaiters.get(event.requestId)?.();
+        teardownWaiters.delete(event.requestId);
+        break;
+      }
+      case "elicitation-result": {
+        elicitationWaiters.get(event.requestId)?.resolve(event.result);
+        elicitationWaiters.delete(event.requestId);
+        break;
+      }
+    }
+  });
+
+  ws.on("close", () => {
+    alive = false;
+    for (const controller of calls.values()) controller.abort();
+    calls.clear();
+    log.warn("Shared viewer disconnected");
+    const gone = new Error("Shared viewer disconnected");
+    for (const waiters of [registrations, oauthWaiters, elicitationWaiters, sessionListWaiters, closeWaiters]) {
+      for (const waiter of waiters.values()) waiter.reject(gone);
+      waiters.clear();
+    }
+    for (const resolve of teardownWaiters.values()) resolve();
+    teardownWaiters.clear();
+    // The sessions went with the viewer
+    for (const sessionId of sessions.keys()) onSessionEnded?.(sessionId);
+    sessions.clear();
+  });
+
+  return {
+    hostPort: info.hostPort,
+    sandboxPort: info.sandboxPort,
+    oauthRedirectUrl: `${info.publicUrl ?? `http://localhost:${info.hostPort}`}/oauth/callback`,
+    get alive() {
+      return alive;
+    },
+    waitForOAuthCallback(state, timeoutMs) {
+      return new Promise<string>((resolve, reject) => {
+        oauthWaiters.set(state, { resolve, reject });
+        send({ type: "await-oauth", state, timeoutMs });
+      });
+    },
+    async openUrl(url) {
+      await openBrowser(url, browser);
+    },
+    async serveApp(view, upstream, reuseKey) {
+      const requestId = String(++requestCounter);
+      const registered = new Promise<ServedApp & { reused?: boolean }>((resolve, reject) => {
+        registrations.set(requestId, { resolve, reject });
+      });
+      send({ type: "register-session", requestId, upstream: upstream.name, view, reuseKey });
+
+      const { sessionId, url, callId, reused } = await registered;
+      sessions.set(sessionId, upstream);
+      if (!reused) await openBrowser(url, browser);
+      return { sessionId, url, callId };
+    },
+    updateToolCall(sessionId, callId, update) {
+      if (ws.readyState === WebSocket.OPEN) send({ type: "tool-call-update", sessionId, callId, update });
+    },
+    updateUpstreamStatus(upstream) {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      for (const [sessionId, owner] of sessions) {
+        if (owner === upstream) {
+          send({ type: "session-status", sessionId, upstream: upstream.name, status: upstream.status });
+        }
+      }
+    },
+    elicit(params, signal) {
+      const requestId = String(++requestCounter);
+      return new Promise<ElicitResult>((resolve, reject) => {
+        elicitationWaiters.set(requestId, { resolve, reject });
+        signal.addEventListener("abort", () => {
+          elicitationWaiters.delete(requestId);
+          if (ws.readyState === WebSocket.OPEN) send({ type: "cancel-elicitation", requestId });
+          reject(new Error("Elicitation cancelled"));
+        }, { once: true });
+        send({ type: "elicit", requestId, params });
+      });
+    },
+    listSessions,
+    closeSession(sessionId) {
+      const requestId = String(++requestCounter);
+      return new Promise<boolean>((resolve, reject) => {
+        closeWaiters.set(requestId, { resolve, reject });
+        send({ type: "close-session", requestId, sessionId });
+      });
+    },
+    async reopenSession(sessionId) {
+      const session = (await listSessions()).find(s => s.sessionId === sessionId);
+      if (!session) return undefined;
+      await openBrowser(session.url, browser);
+      return session.url;
+    },
+    async close() {
+      // Our apps may still call their tools while they save their state
+      if (ws.readyState === WebSocket.OPEN && sessions.size > 0) {
+        const requestId = String(++requestCounter);
+        await new Promise<void>((resolve) => {
+          teardownWaiters.set(requestId, resolve);
+          send({ type: "teardown-sessions", requestId });
+        });
+      }
+      ws.close();
+    },
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Types shared by the viewer (the shim instance serving app pages) and the
+ * other shim instances that register their sessions with it.
+ *
+ * The control channel is a WebSocket at `/control` on the viewer's host port.
+ * Instances register app sessions, OAuth redirects they are waiting for and
+ * elicitation forms; the viewer forwards the requests apps send their server
+ * (tools/call, resources/read and friends), OAuth callbacks and form answers
+ * back to the instance that owns them, since only it is connected to the right
+ * upstream.
+ */
+
+import {
+  CallToolRequestSchema,
+  ContentBlockSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  LoggingMessageNotificationParamsSchema,
+  ReadResourceRequestSchema,
+  type CallToolResult,
+  type ElicitRequestFormParams,
+  type ElicitResult,
+  type Progress,
+  type Result,
+  type ServerCapabilities,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { createLogger } from "./log.js";
+import type { UiResourceSecurity } from "./csp.js";
+import type { ToolCallOptions, Upstream, UpstreamStatus } from "./upstream.js";
+
+const log = createLogger("app-host");
+
+/** Bumped on incompatible control channel changes; mismatched viewers are not shared. */
+export const VIEWER_PROTOCOL_VERSION = 9;
+
+/** Served at GET /shim/info so other instances can recognise a shim viewer. */
+export interface ViewerInfo {
+  app: "mcp-app-shim";
+  protocol: number;
+  hostPort: number;
+  sandboxPort: number;
+  /** Set when the viewer runs in remote mode. */
+  publicUrl?: string;
+}
+
+/** What an app session shows: the UI resource and the tool call that produced it. */
+export interface AppView extends UiResourceSecurity {
+  toolName: string;
+  html: string;
+  toolInput: Record<string, unknown>;
+  /** Unset while the tool is still running. */
+  toolResult?: CallToolResult;
+  /** Why the call ended without a result, if it did. */
+  toolCancelReason?: string;
+  /** Upstream tool names the app may call with callServerTool; none when unset. */
+  allowedTools?: string[];
+  /** Other {@link AppRequest} methods the app may send its upstream; none when unset. */
+  allowedMethods?: AppRequestMethod[];
+}
+
+/** How the tool call behind an app session moves on after the app has opened. */
+export type ToolCallUpdate =
+  | { type: "progress"; progress: Progress }
+  | { type: "result"; result: CallToolResult }
+  | { type: "cancelled"; reason: string };
+
+/** An app session as the viewer reports it to the instance that opened it. */
+export interface AppSessionState extends Omit<AppView, "html"> {
+  sessionId: string;
+  url: string;
+  upstream: string;
+  upstreamStatus: UpstreamStatus;
+  /** ISO timestamp of the tool call. */
+  createdAt: string;
+  /** Host pages currently showing the session. */
+  openTabs: number;
+}
+
+const appMessageSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("ui/message"),
+    params: z.object({ role: z.literal("user"), content: z.array(ContentBlockSchema) }),
+  }),
+  z.object({
+    method: z.literal("ui/update-model-context"),
+    params: z.object({
+      content: z.array(ContentBlockSchema).optional(),
+      structuredContent: z.record(z.string(), z.unknown()).optional(),
+    }),
+  }),
+  z.object({ method: z.literal("notifications/message"), params: LoggingMessageNotificationParamsSchema }),
+]);
+
+/** Something an app told its host that is meant for the model (or its logs). */
+export type AppMessage = z.infer<typeof appMessageSchema>;
+
+/** Validates a message relayed by a host page; undefined if it is not an {@link AppMessage}. */
+export function parseAppMessage(raw: unknown): AppMessage | undefined {
+  const parsed = appMessageSchema.safeParse(raw);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/** Requests an app may send its own upstream through the host, by method. */
+const appRequestSchemas = {
+  "tools/call": CallToolRequestSchema,
+  "resources/read": ReadResourceRequestSchema,
+  "resources/list": ListResourcesRequestSchema,
+  "resources/templates/list": ListResourceTemplatesRequestSchema,
+  "prompts/get": GetPromptRequestSchema,
+};
+
+export type AppRequestMethod = keyof typeof appRequestSchemas;
+export type AppRequest = z.infer<(typeof appRequestSchemas)[AppRequestMethod]>;
+
+export const APP_REQUEST_METHODS = Object.keys(appRequestSchemas) as AppRequestMethod[];
+
+/**
+ * Validates a request relayed by a host page. Methods apps cannot send fail
+ * like unknown JSON-RPC methods, malformed params as invalid params.
+ */
+export function parseAppRequest(raw: unknown): { request: AppRequest } | { error: RpcError } {
+  const method = (raw as { method?: unknown } | undefined)?.method;
+  if (typeof method !== "string" || !Object.hasOwn(appRequestSchemas, method)) {
+    return rpcError(ErrorCode.MethodNotFound, `Method not found: ${String(method)}`);
+  }
+  const parsed = appRequestSchemas[method as AppRequestMethod].safeParse(raw);
+  return parsed.success
+    ? { request: parsed.data }
+    : rpcError(ErrorCode.InvalidParams, `Invalid ${method} params: ${z.prettifyError(parsed.error)}`);
+}
+
+/** The methods besides tools/call that an upstream with `capabilities` can answer. */
+export function appRequestMethods(capabilities: ServerCapabilities): AppRequestMethod[] {
+  const methods: AppRequestMethod[] = [];
+  if (capabilities.resources) methods.push("resources/read", "resources/list", "resources/templates/list");
+  if (capabilities.prompts) methods.push("prompts/get");
+  return methods;
+}
+
+/** Messages a shim instance sends to the viewer. */
+export type ControlRequest =
+  | {
+    type: "register-session";
+    requestId: string;
+    /** Name of the upstream, shown while it reconnects. */
+    upstream: string;
+    view: AppView;
+    /** Update this instance's open tab registered under the same key, if any. */
+    reuseKey?: string;
+  }
+  | { type: "await-oauth"; state: string; timeoutMs: number }
+  | ({ type: "app-response"; requestId: string } & AppReply)
+  | { type: "tool-progress"; requestId: string; progress: Progress }
+  | { type: "tool-call-update"; sessionId: string; callId: string; update: ToolCallUpdate }
+  | { type: "session-status"; sessionId: string; upstream: string; status: UpstreamStatus }
+  | { type: "elicit"; requestId: string; params: ElicitRequestFormParams }
+  | { type: "cancel-elicitation"; requestId: string }
+  | { type: "list-sessions"; requestId: string }
+  | { type: "close-session"; requestId: string; sessionId: string }
+  /** Sent when the instance shuts down: its apps get to save their state first. */
+  | { type: "teardown-sessions"; requestId: string };
+
+/** Messages the viewer sends to a registered shim instance. */
+export type ControlEvent =
+  | { type: "session-registered"; requestId: string; sessionId: string; url: string; callId: string; reused?: boolean }
+  | { type: "app-request"; requestId: string; sessionId: string; request: AppRequest }
+  | { type: "cancel-app-request"; requestId: string }
+  | { type: "oauth-callback"; state: string; code?: string; error?: string }
+  | { type: "elicitation-opened"; requestId: string; url: string }
+  | { type: "elicitation-result"; requestId: string; result: ElicitResult }
+  | { type: "app-message"; sessionId: string; message: AppMessage }
+  | { type: "session-list"; requestId: string; sessions: AppSessionState[] }
+  | { type: "session-closed"; requestId: string; closed: boolean }
+  /** One of the instance's sessions was deleted on the viewer (from the dashboard). */
+  | { type: "session-ended"; sessionId: string }
+  | { type: "sessions-torn-down"; requestId: string };
+
+/**
+ * The upstream server that produced an app. A session's requests only ever
+ * reach this server, under the upstream's own tool and prompt names.
+ */
+export type AppUpstream = Pick<Upstream, "name" | "status" | "tools" | "callTool" | "withClient" | "capabilities">;
+
+export function toolErrorResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** A JSON-RPC error object. */
+export interface RpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * The answer to an {@link AppRequest}, passed on to the app as its JSON-RPC
+ * response: a result (for tools/call, possibly an `isError` tool result), or
+ * an error when the request could not be made at all.
+ */
+export type AppReply = { result: Result; error?: undefined } | { result?: undefined; error: RpcError };
+
+export function rpcError(code: number, message: string): { error: RpcError } {
+  return { error: { code, message } };
+}
+
+/** The error to answer with when a call failed with `err`; MCP errors keep their code. */
+export function toRpcError(err: unknown): { error: RpcError } {
+  if (err instanceof McpError) {
+    // McpError prefixes its message with the code, which the app's own McpError adds again
+    const message = err.message.replace(/^MCP error -?\d+: /, "");
+    return { error: { code: err.code, message, ...(err.data === undefined ? {} : { data: err.data }) } };
+  }
+  return rpcError(ErrorCode.InternalError, err instanceof Error ? err.message : String(err));
+}
+
+/** Sends an app's request to its upstream; only tools/call reports progress. */
+export async function relayAppRequest(
+  upstream: AppUpstream,
+  request: AppRequest,
+  options: ToolCallOptions = {},
+): Promise<AppReply> {
+  if (request.method === "tools/call" && !upstream.tools.has(request.params.name)) {
+    log(`Rejected callServerTool for unknown tool: ${request.params.name} (${upstream.name})`);
+    return rpcError(ErrorCode.InvalidParams, `Unknown tool on ${upstream.name}: ${request.params.name}`);
+  }
+  if (request.method !== "tools/call" && !appRequestMethods(upstream.capabilities).includes(request.method)) {
+    return rpcError(ErrorCode.MethodNotFound, `${upstream.name} does not support ${request.method}`);
+  }
+  log(`Relaying ${request.method} from an app (${upstream.name})`);
+  try {
+    return { result: await sendAppRequest(upstream, request, options) };
+  } catch (err) {
+    if (options.signal?.aborted) log(`${request.method} cancelled`);
+    else log.error(`${request.method} from an app failed:`, err);
+    return toRpcError(err);
+  }
+}
+
+function sendAppRequest(upstream: AppUpstream, request: AppRequest, options: ToolCallOptions): Promise<Result> {
+  const { signal } = options;
+  switch (request.method) {
+    case "tools/call":
+      return upstream.callTool(request.params.name, request.params.arguments, options);
+    case "resources/read":
+      return upstream.withClient(client => client.readResource(request.params, { signal }));
+    case "resources/list":
+      return upstream.withClient(client => client.listResources(request.params, { signal }));
+    case "resources/templates/list":
+      return upstream.withClient(client => client.listResourceTemplates(request.params, { signal }));
+    case "prompts/get":
+      return upstream.withClient(client => client.getPrompt(request.params, { signal }));
+  }
+}
@@ -7,9 +7,24 @@
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { spawn } from "node:child_process";
+import { createServer, get as httpGet } from "node:http";
+import { WebSocket } from "ws";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
+import { mkdtempSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { runInNewContext } from "node:vm";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const root = join(__dirname, "..");
@@ -18,6 +33,86 @@ async function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** An app's request to its server, as a host page relays it over the viewer's WebSocket. */
+function appRequest(requestId: string, method: string, params: Record<string, unknown>) {
+  return JSON.stringify({ type: "app-request", requestId, request: { method, params } });
+}
+
+/**
+ * Runs the viewer's host page script for the session at `url`, with just enough
+ * of a DOM for it, and lets the test play the app inside its sandbox frame.
+ */
+async function runHostPage(url: URL) {
+  const html = await (await fetch(url)).text();
+  const script = /<script>([\s\S]*)<\/script>/.exec(html)![1];
+  const toApp: any[] = [];
+  const arrivals: (() => void)[] = [];
+  const listeners: ((event: any) => void)[] = [];
+  const sockets: WebSocket[] = [];
+  const element = (): any => ({
+    style: {},
+    dataset: {},
+    setAttribute() {},
+    remove() {},
+    addEventListener() {},
+    querySelector: () => element(),
+  });
+  const frame = {
+    ...element(),
+    contentWindow: {
+      postMessage(message: any) {
+        toApp.push(message);
+        for (const arrived of arrivals.splice(0)) arrived();
+      },
+    },
+  };
+  const elements = new Map<string, any>([["sandbox-frame", frame]]);
+  const page: any = {
+    location: { pathname: url.pathname, host: url.host, protocol: url.protocol },
+    navigator: { language: "en-US" },
+    innerWidth: 1024,
+    innerHeight: 768,
+    matchMedia: () => ({ matches: false, addEventListener() {} }),
+    addEventListener: (type: string, listener: (event: any) => void) => {
+      if (type === "message") listeners.push(listener);
+    },
+    focus() {},
+    close() {},
+    document: {
+      body: element(),
+      getElementById: (id: string) => elements.get(id) ?? elements.set(id, element()).get(id),
+      addEventListener() {},
+    },
+    WebSocket: class extends WebSocket {
+      constructor(address: string) {
+        super(address);
+        sockets.push(this);
+      }
+    },
+    setTimeout,
+    clearTimeout,
+    console,
+  };
+  page.window = page;
+  runInNewContext(script, page);
+
+  return {
+    frame,
+    body: page.document.body,
+    socket: () => sockets[0],
+    /** Posts a message from the app, as the sandbox relays it. */
+    send: (data: object) => listeners.forEach(listener => listener({ source: frame.contentWindow, data })),
+    /** Waits for a message to the app that `match` accepts. */
+    async receive(match: (message: any) => boolean): Promise<any> {
+      for (;;) {
+        const index = toApp.findIndex(match);
+        if (index !== -1) return toApp.splice(index, 1)[0];
+        await new Promise<void>((resolve) => arrivals.push(resolve));
+      }
+    },
+  };
+}
+
 async function main() {
   console.log("=== MCP App Shim Integration Test ===\n");
 
@@ -63,17 +158,52 @@ async function main() {
 
   if (!hasEcho) throw new Error("Missing 'echo' tool");
   if (!hasWidget) throw new Error("Missing 'show_widget' tool");
-  console.log("   ✓ Both tools proxied correctly\n");
+  if (tools.tools.some(t => t.name === "widget_state")) throw new Error("App-only tool listed for the model");
+  if (!tools.tools.some(t => t.name === "forget_widgets")) throw new Error("Missing model-only 'forget_widgets' tool");
+  const appOnlyCall = await client.callTool({ name: "widget_state", arguments: {} }).catch((err: Error) => err);
+  if (!(appOnlyCall instanceof McpError)) throw new Error("App-only tool callable by the model");
+  console.log("   ✓ Both tools proxied correctly, app-only tools hidden\n");
 
-  // 4. Call the echo tool (no UI)
+  // 4. Call the echo tool (no UI); its upstream log message is forwarded too
   console.log("4. Calling 'echo' tool...");
+  const logged = new Promise<unknown>((resolve) => {
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => resolve(n.params.data));
+  });
+  await client.setLoggingLevel("debug");
   const echoResult = await client.callTool({ name: "echo", arguments: { message: "hello" } });
   const echoText = (echoResult.content as any[])[0]?.text;
   console.log("   Result:", echoText);
 
   if (echoText !== "Echo: hello") throw new Error(`Unexpected echo result: ${echoText}`);
+  const logData = await logged;
+  if (logData !== "echoing hello") throw new Error(`Unexpected log message: ${logData}`);
   console.log("   ✓ Echo tool works\n");
 
+  // Prompts, resource templates and completions are proxied as well
+  console.log("   Checking prompts, templates and completions...");
+  const prompts = (await client.listPrompts()).prompts.map(p => p.name);
+  if (!prompts.includes("greet")) throw new Error(`Missing 'greet' prompt: ${prompts}`);
+  const prompt = await client.getPrompt({ name: "greet", arguments: { name: "Alice" } });
+  const promptText = (prompt.messages[0].content as any).text;
+  if (promptText !== "Say hello to Alice") throw new Error(`Unexpected prompt: ${promptText}`);
+
+  const templates = (await client.listResourceTemplates()).resourceTemplates.map(t => t.uriTemplate);
+  if (!templates.includes("test://greeting/{name}")) throw new Error(`Missing resource template: ${templates}`);
+
+  const promptCompletion = await client.complete({
+    ref: { type: "ref/prompt", name: "greet" },
+    argument: { name: "name", value: "A" },
+  });
+  const templateCompletion = await client.complete({
+    ref: { type: "ref/resource", uri: "test://greeting/{name}" },
+    argument: { name: "name", value: "B" },
+  });
+  if (promptCompletion.completion.values.join() !== "Alice" || templateCompletion.completion.values.join() !== "Bob") {
+    throw new Error(`Unexpected completions: ${promptCompletion.completion.values} / ${templateCompletion.completion.values}`);
+  }
+  await client.ping();
+  console.log("   ✓ Prompts, templates, completions and ping proxied\n");
+
   // 5. Call the show_widget tool (has UI — will try to open browser)
   console.log("5. Calling 'show_widget' tool (app tool)...");
   const widgetResult = await client.callTool({ name: "show_widget", arguments: { title: "Test Widget" } });
@@ -92,8 +222,967 @@ async function main() {
     console.log("   ⚠ Browser launch not detected in result (may be expected if browser open failed)\n");
   }
 
+  // 6. Spawn the upstream as a stdio child process instead of HTTP
+  console.log("6. Connecting to shim with a stdio upstream...");
+  const stdioShimTransport = new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--", "npx", "tsx", join(root, "test", "test-server.ts"), "--stdio"],
+  });
+
+  const stdioClient = new Client({ name: "test-client", version: "1.0.0" });
+  await stdioClient.connect(stdioShimTransport);
+
+  const stdioEcho = await stdioClient.callTool({ name: "echo", arguments: { message: "stdio" } });
+  const stdioEchoText = (stdioEcho.content as any[])[0]?.text;
+  console.log("   Result:", stdioEchoText);
+
+  if (stdioEchoText !== "Echo: stdio") throw new Error(`Unexpected stdio echo result: ${stdioEchoText}`);
+  console.log("   ✓ Stdio upstream works\n");
+
+  // Tools registered upstream at runtime reach the client via list_changed
+  console.log("   Adding a tool upstream at runtime...");
+  const toolsChanged = new Promise<void>((resolve) => {
+    stdioClient.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve());
+  });
+  await stdioClient.callTool({ name: "add_tool", arguments: { name: "late" } });
+  await toolsChanged;
+
+  const lateTools = (await stdioClient.listTools()).tools.map(t => t.name);
+  if (!lateTools.includes("late")) throw new Error(`Runtime tool not listed: ${lateTools}`);
+  const lateResult = await stdioClient.callTool({ name: "late", arguments: {} });
+  const lateText = (lateResult.content as any[])[0]?.text;
+  if (lateText !== "Hello from late") throw new Error(`Unexpected runtime tool result: ${lateText}`);
+  await stdioClient.close();
+  console.log("   ✓ tools/list_changed forwarded and tool list refreshed\n");
+
+  // 7. Aggregate the HTTP and stdio upstreams behind one shim
+  console.log("7. Connecting to shim with two upstreams...");
+  const multiShimTransport = new StdioClientTransport({
+    command: "node",
+    args: [
+      join(root, "dist", "index.js"),
+      "web=http://localhost:3456/mcp",
+      "--", "npx", "tsx", join(root, "test", "test-server.ts"), "--stdio",
+    ],
+  });
+
+  const multiClient = new Client({ name: "test-client", version: "1.0.0" });
+  await multiClient.connect(multiShimTransport);
+
+  const multiTools = (await multiClient.listTools()).tools.map(t => t.name);
+  console.log("   Tools found:", multiTools);
+  for (const expected of ["web__echo", "web__show_widget", "npx__echo", "npx__show_widget"]) {
+    if (!multiTools.includes(expected)) throw new Error(`Missing '${expected}' tool`);
+  }
+
+  const multiEcho = await multiClient.callTool({ name: "npx__echo", arguments: { message: "routed" } });
+  const multiEchoText = (multiEcho.content as any[])[0]?.text;
+  if (multiEchoText !== "Echo: routed") throw new Error(`Unexpected routed echo result: ${multiEchoText}`);
+
+  // Each upstream's prompts come on their own page
+  const multiPrompts: string[] = [];
+  let promptCursor: string | undefined;
+  do {
+    const page = await multiClient.listPrompts(promptCursor ? { cursor: promptCursor } : undefined);
+    multiPrompts.push(...page.prompts.map(p => p.name));
+    promptCursor = page.nextCursor;
+  } while (promptCursor);
+  if (!multiPrompts.includes("web__greet") || !multiPrompts.includes("npx__greet")) {
+    throw new Error(`Prompts not namespaced: ${multiPrompts}`);
+  }
+  await multiClient.getPrompt({ name: "npx__greet", arguments: { name: "Bob" } });
+  await multiClient.close();
+  console.log("   ✓ Tools namespaced and routed per upstream\n");
+
+  // 8. Configure the shim from a config file with a tool deny list
+  console.log("8. Connecting to shim with a config file...");
+  const configPath = join(mkdtempSync(join(tmpdir(), "mcp-app-shim-")), "config.json");
+  writeFileSync(configPath, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp", transport: "streamable-http" }],
+    browser: { open: false },
+    logLevel: "warn",
+    tools: {
+      deny: ["echo"],
+      sessionTools: false,
+      overrides: {
+        slow: { name: "pause", description: "Pauses briefly", defaults: { ms: 10 } },
+        show_widget: { arguments: { title: "Fixed" } },
+        slow_outcome: { ui: "ui://test/widget.html" },
+        forget_widgets: { ui: "ui://test/missing.html" },
+      },
+    },
+  }));
+
+  const configClient = new Client({ name: "test-client", version: "1.0.0" });
+  await configClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", configPath],
+  }));
+
+  const configTools = (await configClient.listTools()).tools.map(t => t.name);
+  console.log("   Tools found:", configTools);
+  if (configTools.includes("echo")) throw new Error("Denied 'echo' tool was exposed");
+  if (!configTools.includes("show_widget")) throw new Error("Missing 'show_widget' tool");
+  if (configTools.includes("list_app_sessions")) throw new Error("Session tools were not switched off");
+
+  // Overrides rename tools, inject arguments and swap in a UI
+  const configToolList = (await configClient.listTools()).tools;
+  const pause = configToolList.find(t => t.name === "pause");
+  if (configTools.includes("slow") || pause?.description !== "Pauses briefly" || "ms" in (pause.inputSchema.properties ?? {})) {
+    throw new Error(`Override not applied: ${JSON.stringify(pause)}`);
+  }
+  const paused = await configClient.callTool({ name: "pause", arguments: {} });
+  if ((paused.content as any[])[0].text !== "Worked 10ms") throw new Error("Default argument not injected");
+  if ("title" in (configToolList.find(t => t.name === "show_widget")?.inputSchema.properties ?? {})) {
+    throw new Error("Fixed argument still in the input schema");
+  }
+  const forcedUi = await configClient.callTool({ name: "slow_outcome", arguments: {} });
+  if (!(forcedUi.content as any[]).some((c: any) => c.text?.includes("/app/"))) throw new Error("Forced UI not opened");
+  // A UI that cannot be read still leaves the tool's result, with the reason it is missing
+  const missingUi = await configClient.callTool({ name: "forget_widgets", arguments: {} });
+  const missingUiText = (missingUi.content as any[]).map((c: any) => c.text).join("");
+  if (!missingUiText.startsWith("Forgot every widget") || !missingUiText.includes("could not be shown")) {
+    throw new Error(`UI load failure not explained: ${missingUiText}`);
+  }
+
+  // Its apps cannot call the denied tool either, and other web pages cannot connect at all
+  const configApp = await configClient.callTool({ name: "show_widget", arguments: { title: "Denied" } });
+  const configAppUrl = /(http:\/\/localhost:\d+)\/app\/(\w+)/.exec((configApp.content as any[]).map((c: any) => c.text).join(""));
+  if (!configAppUrl || !/^[0-9a-f]{32}$/.test(configAppUrl[2])) throw new Error(`Guessable app URL: ${configAppUrl?.[0]}`);
+  const configWsUrl = `${configAppUrl[1].replace("http", "ws")}/?session=${configAppUrl[2]}`;
+  // Fixed arguments win over the app's own, as over the model's
+  const deniedWs = new WebSocket(configWsUrl);
+  const [deniedText, fixedText] = await new Promise<string[]>((resolve, reject) => {
+    const replies: string[] = [];
+    deniedWs.on("error", reject);
+    deniedWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "app-data") {
+        if (msg.toolInput.title !== "Fixed") reject(new Error(`Fixed argument not applied: ${msg.toolInput.title}`));
+        deniedWs.send(appRequest("1", "tools/call", { name: "echo", arguments: { message: "denied" } }));
+      } else if (msg.type === "app-response") {
+        replies[Number(msg.requestId) - 1] = msg.error?.message ?? msg.result.content[0].text;
+        if (msg.requestId === "1") {
+          deniedWs.send(appRequest("2", "tools/call", { name: "show_widget", arguments: { title: "From the app" } }));
+        } else {
+          resolve(replies);
+        }
+      }
+    });
+  });
+  deniedWs.close();
+  if (!deniedText.includes("not available")) throw new Error(`App called a denied tool: ${deniedText}`);
+  if (fixedText !== "Widget created: Fixed") throw new Error(`App overrode a fixed argument: ${fixedText}`);
+  const foreignStatus = await new Promise<number | string>((resolve) => {
+    const foreignWs = new WebSocket(configWsUrl, { headers: { Origin: "http://evil.example" } });
+    foreignWs.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    foreignWs.on("open", () => resolve("open"));
+    foreignWs.on("error", () => {});
+  });
+  if (foreignStatus !== 401) throw new Error(`Cross-origin WebSocket not rejected: ${foreignStatus}`);
+  // As after DNS rebinding: the right address, but another site's name (fetch cannot set Host)
+  const reboundStatus = await new Promise<number | undefined>((resolve, reject) => {
+    httpGet(`${configAppUrl[1]}/api/sessions`, { headers: { Host: "evil.example" } }, (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    }).on("error", reject);
+  });
+  if (reboundStatus !== 403) throw new Error(`Request for a foreign host not rejected: ${reboundStatus}`);
+  await configClient.close();
+  console.log("   ✓ Config file applied; apps limited to their tools and origin\n");
+
+  // 9. OAuth against the mock authorization server. The "browser" is a node
+  // one-liner that follows the authorize redirect back to the shim's callback.
+  console.log("9. Connecting to shim with an OAuth upstream...");
+  const oauthDir = mkdtempSync(join(tmpdir(), "mcp-app-shim-oauth-"));
+  const oauthConfig = (browser: object) => {
+    const path = join(oauthDir, "config.json");
+    writeFileSync(path, JSON.stringify({
+      upstreams: [{ url: "http://localhost:3456/mcp-auth", auth: { type: "oauth", tokenDir: oauthDir } }],
+      host: { port: 9281, sandboxPort: 9282 },
+      browser,
+    }));
+    return path;
+  };
+
+  const oauthClient = new Client({ name: "test-client", version: "1.0.0" });
+  await oauthClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", oauthConfig({
+      command: "node",
+      args: ["-e", "fetch(process.argv[1]).then(r => r.text())"],
+    })],
+  }));
+  const oauthEcho = await oauthClient.callTool({ name: "echo", arguments: { message: "authorized" } });
+  const oauthEchoText = (oauthEcho.content as any[])[0]?.text;
+  if (oauthEchoText !== "Echo: authorized") throw new Error(`Unexpected OAuth echo result: ${oauthEchoText}`);
+  await oauthClient.close();
+
+  if (!readdirSync(oauthDir).some(f => f !== "config.json")) throw new Error("OAuth tokens were not stored");
+
+  // A second run must reuse the stored tokens without opening a browser
+  const reauthClient = new Client({ name: "test-client", version: "1.0.0" });
+  await reauthClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", oauthConfig({ open: false })],
+  }));
+  await reauthClient.listTools();
+  await reauthClient.close();
+  console.log("   ✓ OAuth authorization and token reuse work\n");
+
+  // 10. A second shim shares the first one's viewer; callServerTool from its
+  // app is routed back to it over the control channel
+  console.log("10. Sharing the viewer between shim instances...");
+  const viewerConfigDir = mkdtempSync(join(tmpdir(), "mcp-app-shim-viewer-"));
+  const viewerConfig = (host: object) => {
+    const path = join(viewerConfigDir, "config.json");
+    writeFileSync(path, JSON.stringify({
+      upstreams: [{ url: "http://localhost:3456/mcp" }],
+      host,
+      browser: { open: false },
+    }));
+    return path;
+  };
+  const openApp = async (configPath: string) => {
+    const shimClient = new Client({ name: "test-client", version: "1.0.0" });
+    await shimClient.connect(new StdioClientTransport({
+      command: "node",
+      args: [join(root, "dist", "index.js"), "--config", configPath],
+    }));
+    const result = await shimClient.callTool({ name: "show_widget", arguments: { title: "Shared" } });
+    const text = (result.content as any[]).map((c: any) => c.text).join("");
+    const url = /(http:\/\/localhost:\d+\/app\/\S+)/.exec(text)?.[1];
+    if (!url) throw new Error(`No app URL in result: ${text}`);
+    return { shimClient, url: new URL(url) };
+  };
+
+  const shared = await openApp(viewerConfig({}));
+  if (shared.url.port !== "9271") throw new Error(`Expected the shared viewer on 9271, got ${shared.url}`);
+
+  const appWs = new WebSocket(`ws://localhost:9271/?session=${shared.url.pathname.split("/").pop()}`);
+  // App-only tools are callable from the app, model-only tools are not; the
+  // app can also read its server's resources and prompts, but nothing else
+  const appCalls: [string, Record<string, unknown>][] = [
+    ["tools/call", { name: "echo", arguments: { message: "shared" } }],
+    ["tools/call", { name: "widget_state", arguments: {} }],
+    ["tools/call", { name: "forget_widgets", arguments: {} }],
+    ["resources/read", { uri: "ui://test/widget.html" }],
+    ["resources/list", {}],
+    ["prompts/get", { name: "greet", arguments: { name: "App" } }],
+    ["completion/complete", { ref: { type: "ref/prompt", name: "greet" }, argument: { name: "name", value: "A" } }],
+    ["resources/read", {}],
+  ];
+  const appData = await new Promise<any>((resolve, reject) => {
+    appWs.on("error", reject);
+    appWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "app-data") resolve(msg);
+    });
+  });
+  if (JSON.stringify(appData.serverMethods) !== JSON.stringify([
+    "tools/call", "resources/read", "resources/list", "resources/templates/list", "prompts/get",
+  ])) {
+    throw new Error(`Unexpected server methods for the app: ${appData.serverMethods}`);
+  }
+  const appReplies = await new Promise<any[]>((resolve) => {
+    const replies: any[] = [];
+    appWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "app-response") {
+        replies[Number(msg.requestId)] = msg;
+        if (replies.filter(Boolean).length === appCalls.length) resolve(replies);
+      }
+    });
+    appCalls.forEach(([method, params], i) => appWs.send(appRequest(String(i), method, params)));
+  });
+  appWs.close();
+  const sharedEchoText = appReplies[0].result?.content[0].text;
+  if (appReplies[1].result?.content[0].text !== "Widget state: ready") {
+    throw new Error(`App-only tool not callable from the app: ${JSON.stringify(appReplies[1])}`);
+  }
+  if (appReplies[2].error?.code !== -32602) {
+    throw new Error(`Model-only tool not rejected for the app: ${JSON.stringify(appReplies[2])}`);
+  }
+  if (!appReplies[3].result?.contents[0].text.includes("<html")
+    || !appReplies[4].result?.resources.some((r: any) => r.uri === "ui://test/widget.html")
+    || appReplies[5].result?.messages[0].content.text !== "Say hello to App") {
+    throw new Error(`Resources and prompts not relayed for the app: ${JSON.stringify(appReplies.slice(3, 6))}`);
+  }
+  if (appReplies[6].error?.code !== ErrorCode.MethodNotFound || appReplies[7].error?.code !== ErrorCode.InvalidParams) {
+    throw new Error(`Unsupported or malformed app requests not rejected: ${JSON.stringify(appReplies.slice(6))}`);
+  }
+
+  // The sandbox enforces the widget's declared CSP and permissions
+  const sharedId = shared.url.pathname.split("/").pop()!;
+  const sandboxRes = await fetch(`http://localhost:9272/sandbox.html?session=${sharedId}`);
+  const csp = sandboxRes.headers.get("content-security-policy") ?? "";
+  if (!csp.includes("connect-src 'self' https://api.example.com;") || csp.includes("javascript:")) {
+    throw new Error(`Unexpected sandbox CSP: ${csp}`);
+  }
+  if (!(await fetch("http://localhost:9272/sandbox.html")).headers.get("content-security-policy")?.includes("connect-src 'none'")) {
+    throw new Error("Sandbox without a session is not locked down");
+  }
+  if (!(await sandboxRes.text()).includes(`'allow', "clipboard-write"`)) {
+    throw new Error("Sandbox does not delegate the widget's permissions");
+  }
+  const report = await fetch(`http://localhost:9272/csp-report?session=${sharedId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/csp-report" },
+    body: JSON.stringify({ "csp-report": { "effective-directive": "connect-src", "blocked-uri": "https://evil.example" } }),
+  });
+  if (report.status !== 204) throw new Error(`CSP report rejected: ${report.status}`);
+  await shared.shimClient.close();
+  if (sharedEchoText !== "Echo: shared") throw new Error(`Unexpected shared echo result: ${sharedEchoText}`);
+  console.log("   ✓ Sessions registered with the shared viewer, sandboxed with their CSP\n");
+
+  // A port held by something other than a shim moves the viewer to free ports
+  console.log("11. Falling back to free ports...");
+  const blocker = createServer((_req, res) => res.end("not a shim"));
+  await new Promise<void>((resolve) => blocker.listen(9291, resolve));
+  const moved = await openApp(viewerConfig({ port: 9291, sandboxPort: 9292 }));
+  await moved.shimClient.close();
+  blocker.close();
+  if (moved.url.port === "9291") throw new Error(`Viewer did not move off the busy port: ${moved.url}`);
+  console.log(`   ✓ Viewer moved to ${moved.url.host}\n`);
+
+  // 12. Requests from the upstream to its client are relayed to ours
+  console.log("12. Relaying sampling, elicitation and roots...");
+  const askingClient = new Client(
+    { name: "test-client", version: "1.0.0" },
+    { capabilities: { sampling: {}, elicitation: {}, roots: {} } },
+  );
+  askingClient.setRequestHandler(ElicitRequestSchema, () => ({ action: "accept", content: { name: "Alice" } }));
+  askingClient.setRequestHandler(CreateMessageRequestSchema, () => ({
+    role: "assistant",
+    content: { type: "text", text: "hi" },
+    model: "test-model",
+  }));
+  askingClient.setRequestHandler(ListRootsRequestSchema, () => ({ roots: [{ uri: "file:///work" }] }));
+  await askingClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "http://localhost:3456/mcp"],
+  }));
+
+  const ask = async (shimClient: Client, what: string) => {
+    const result = await shimClient.callTool({ name: "ask_client", arguments: { what } });
+    return (result.content as any[])[0]?.text as string;
+  };
+  const answers = [
+    await ask(askingClient, "elicit"),
+    await ask(askingClient, "sample"),
+    await ask(askingClient, "roots"),
+    await ask(askingClient, "capabilities"),
+  ];
+  await askingClient.close();
+  if (answers.join("|") !== "accept: Alice|hi|file:///work|elicitation,roots,sampling") {
+    throw new Error(`Unexpected relayed answers: ${answers}`);
+  }
+  // The upstream is only offered what our client supports
+  if (await ask(client, "capabilities") !== "") throw new Error("Upstream offered what the client does not support");
+
+  // A client without elicitation support gets the form in the browser; this
+  // "browser" loads the form and submits an answer
+  const formConfig = join(viewerConfigDir, "form.json");
+  writeFileSync(formConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    elicitation: { browser: true },
+    browser: {
+      command: "node",
+      args: ["-e", `const url = process.argv[1];
+        fetch(url).then(r => r.text()).then(() => fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "accept", content: { name: "Bob" } }),
+        }));`],
+    },
+  }));
+  const formClient = new Client({ name: "test-client", version: "1.0.0" });
+  await formClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", formConfig],
+  }));
+  const formAnswer = await ask(formClient, "elicit");
+  const formCapabilities = await ask(formClient, "capabilities");
+  await formClient.close();
+  if (formAnswer !== "accept: Bob") throw new Error(`Unexpected browser elicitation answer: ${formAnswer}`);
+  if (formCapabilities !== "elicitation") throw new Error(`Unexpected capabilities offered upstream: ${formCapabilities}`);
+  console.log("   ✓ Client requests relayed, with the browser form as fallback\n");
+
+  // 13. The upstream forgets our session (as when it restarts); the shim
+  // reconnects, and a call made meanwhile waits for it
+  console.log("13. Reconnecting to an upstream that lost the session...");
+  const reconnectClient = new Client({ name: "test-client", version: "1.0.0" });
+  await reconnectClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "http://localhost:3456/mcp"],
+  }));
+  await reconnectClient.callTool({ name: "drop_sessions", arguments: {} });
+  await sleep(500);
+
+  const failed = await reconnectClient.callTool({ name: "echo", arguments: { message: "lost" } })
+    .then(() => undefined, (err: Error) => err.message);
+  console.log("   First call:", failed ?? "succeeded");
+  if (failed && !failed.includes("reconnecting")) throw new Error(`Unclear error during reconnect: ${failed}`);
+  // Other requests wait for the reconnection too, rather than hitting the closed client
+  await reconnectClient.setLoggingLevel("info");
+
+  const recovered = await reconnectClient.callTool({ name: "echo", arguments: { message: "back" } });
+  const recoveredText = (recovered.content as any[])[0]?.text;
+  await reconnectClient.close();
+  if (recoveredText !== "Echo: back") throw new Error(`Unexpected echo after reconnect: ${recoveredText}`);
+  console.log("   ✓ Reconnected with a new session\n");
+
+  // 14. Progress is relayed (and keeps a call under its timeout alive),
+  // timeouts and cancellation reach the upstream — also for app tool calls
+  console.log("14. Progress, timeouts and cancellation...");
+  const slowConfig = join(viewerConfigDir, "slow.json");
+  writeFileSync(slowConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    browser: { open: false },
+    tools: { timeouts: { "slow": 1000 } },
+  }));
+  const slowApp = await openApp(slowConfig);
+  const slowClient = slowApp.shimClient;
+  const slowOutcome = async () => {
+    const result = await slowClient.callTool({ name: "slow_outcome", arguments: {} });
+    return (result.content as any[])[0]?.text;
+  };
+
+  const progress: number[] = [];
+  await slowClient.callTool({ name: "slow", arguments: { ms: 2500 } }, undefined, {
+    onprogress: (p) => progress.push(p.progress),
+  });
+  // The SDK handles notifications a tick after responses, so the last one may lose the race
+  if (!"1,2,3,4,5".startsWith(progress.join()) || progress.length < 4) throw new Error(`Unexpected progress: ${progress}`);
+
+  // Without a configured timeout, progress keeps a call alive past the SDK's 60 second default
+  const untimedClient = new Client({ name: "test-client", version: "1.0.0" });
+  await untimedClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "http://localhost:3456/mcp"],
+  }));
+  const pastDefault = await untimedClient.callTool({ name: "slow", arguments: { ms: 62_000 } }, undefined, {
+    onprogress: () => {},
+    resetTimeoutOnProgress: true,
+  }).then((result) => (result.content as any[])[0]?.text, (err: Error) => err.message);
+  await untimedClient.close();
+  if (pastDefault !== "Worked 62000ms") throw new Error(`Expected the call to outlive the default timeout, got: ${pastDefault}`);
+
+  const timedOut = await slowClient.callTool({ name: "slow", arguments: { ms: 10000 } })
+    .then(() => "finished", (err: Error) => err.message);
+  if (!timedOut.includes("timed out")) throw new Error(`Expected a timeout, got: ${timedOut}`);
+  await sleep(2500);
+  if (await slowOutcome() !== "cancelled") throw new Error("Timed out call was not cancelled upstream");
+
+  const abort = new AbortController();
+  setTimeout(() => abort.abort(), 300);
+  await slowClient.callTool({ name: "slow", arguments: { ms: 1000 } }, undefined, { signal: abort.signal })
+    .then(() => { throw new Error("Cancelled call completed"); }, () => {});
+  await sleep(500);
+  if (await slowOutcome() !== "cancelled") throw new Error("Cancellation did not reach the upstream");
+
+  // The same over the app's WebSocket
+  const slowWs = new WebSocket(`ws://localhost:9271/?session=${slowApp.url.pathname.split("/").pop()}`);
+  const wsEvents = await new Promise<string[]>((resolve, reject) => {
+    const events: string[] = [];
+    slowWs.on("error", reject);
+    slowWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "app-data") {
+        slowWs.send(appRequest("1", "tools/call", { name: "slow", arguments: { ms: 250 } }));
+      } else if (msg.type === "tool-progress" || msg.type === "app-response") {
+        events.push(msg.type);
+        if (msg.type === "app-response") resolve(events);
+      }
+    });
+  });
+  if (wsEvents.filter(e => e === "tool-progress").length < 4) throw new Error(`Unexpected app events: ${wsEvents}`);
+
+  slowWs.send(appRequest("2", "tools/call", { name: "slow", arguments: { ms: 1000 } }));
+  await sleep(300);
+  slowWs.send(JSON.stringify({ type: "cancel-app-request", requestId: "2" }));
+  await sleep(500);
+  if (await slowOutcome() !== "cancelled") throw new Error("App tool call cancellation did not reach the upstream");
+
+  // A call that fails outright reaches the app as a JSON-RPC error, not a hang
+  const timedOutReply = await new Promise<any>((resolve) => {
+    slowWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "app-response" && msg.requestId === "3") resolve(msg);
+    });
+    slowWs.send(appRequest("3", "tools/call", { name: "slow", arguments: { ms: 10000 } }));
+  });
+  slowWs.close();
+  if (timedOutReply.error?.code !== ErrorCode.RequestTimeout || timedOutReply.result) {
+    throw new Error(`Expected a timeout error for the app, got: ${JSON.stringify(timedOutReply)}`);
+  }
+  await slowClient.close();
+
+  // An app tool's view opens as the call starts, follows its progress and
+  // gets the result, or hears that the call was cancelled
+  const runningConfig = join(viewerConfigDir, "running.json");
+  writeFileSync(runningConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    browser: { open: false },
+    tools: { overrides: { slow: { ui: "ui://test/widget.html" } } },
+  }));
+  const runningClient = (await openApp(runningConfig)).shimClient;
+  const watchSlowCall = async (ms: number, signal?: AbortSignal) => {
+    const call = runningClient.callTool({ name: "slow", arguments: { ms } }, undefined, { signal })
+      .then(result => (result.content as any[]).map((c: any) => c.text).join(""), (err: Error) => err.message);
+    let session: { id: string; toolInput: any } | undefined;
+    for (let attempt = 0; attempt < 50 && !session; attempt++) {
+      const res = await fetch("http://localhost:9271/api/sessions");
+      session = (await res.json()).sessions.find((s: any) => s.toolName === "slow" && s.toolInput.ms === ms);
+      if (!session) await sleep(20);
+    }
+    if (!session) throw new Error("No app session while the slow call was running");
+    const ws = new WebSocket(`ws://localhost:9271/?session=${session.id}`);
+    const messages = await new Promise<any[]>((resolve, reject) => {
+      const received: any[] = [];
+      ws.on("error", reject);
+      ws.on("message", (data) => {
+        const msg = JSON.parse(data.toString());
+        received.push(msg);
+        if (msg.type === "tool-call-update" && msg.update.type !== "progress") resolve(received);
+      });
+    });
+    ws.close();
+    return { text: await call, messages };
+  };
+
+  const finished = await watchSlowCall(1000);
+  const [runningData, ...updates] = finished.messages;
+  if (runningData.type !== "app-data" || runningData.toolResult || runningData.toolInput.ms !== 1000) {
+    throw new Error(`App was not opened with the running call: ${JSON.stringify(runningData)}`);
+  }
+  const last = updates.pop();
+  if (updates.length < 3 || updates.some(msg => msg.update.type !== "progress")) {
+    throw new Error(`Unexpected progress for the app: ${JSON.stringify(updates)}`);
+  }
+  if (last.update.result?.content[0]?.text !== "Worked 1000ms" || !finished.text.includes("interactive view")) {
+    throw new Error(`Unexpected outcome of the running call: ${JSON.stringify(last)} / ${finished.text}`);
+  }
+
+  const abortRunning = new AbortController();
+  setTimeout(() => abortRunning.abort(), 500);
+  const cancelled = await watchSlowCall(1200, abortRunning.signal);
+  const cancelledUpdate = cancelled.messages.pop().update;
+  if (cancelledUpdate.type !== "cancelled" || cancelledUpdate.reason !== "Cancelled by the client") {
+    throw new Error(`Expected the app to hear of the cancellation, got: ${JSON.stringify(cancelledUpdate)}`);
+  }
+  await runningClient.close();
+
+  // The call does not wait for a slow UI resource; the view that opens after
+  // it finished still gets the result
+  const slowUiConfig = join(viewerConfigDir, "slow-ui.json");
+  writeFileSync(slowUiConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    browser: { open: false },
+    tools: { overrides: { slow: { ui: "ui://test/widget-slow.html" } } },
+  }));
+  const slowUiClient = new Client({ name: "test-client", version: "1.0.0" });
+  await slowUiClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", slowUiConfig],
+  }));
+  const slowUiStarted = Date.now();
+  const slowUiText = ((await slowUiClient.callTool({ name: "slow", arguments: { ms: 1500 } })).content as any[])
+    .map((c: any) => c.text).join("");
+  const slowUiElapsed = Date.now() - slowUiStarted;
+  const slowUiId = /http:\/\/localhost:9271\/app\/(\w+)/.exec(slowUiText)?.[1];
+  if (!slowUiId || slowUiElapsed > 2500) {
+    throw new Error(`The call waited for the view (${slowUiElapsed}ms): ${slowUiText}`);
+  }
+  const slowUiWs = new WebSocket(`ws://localhost:9271/?session=${slowUiId}`);
+  const slowUiData = await new Promise<any>((resolve, reject) => {
+    slowUiWs.on("error", reject);
+    slowUiWs.on("message", (data) => resolve(JSON.parse(data.toString())));
+  });
+  slowUiWs.close();
+  await slowUiClient.close();
+  if (slowUiData.toolResult?.content[0]?.text !== "Worked 1500ms") {
+    throw new Error(`The view missed the result that arrived before it opened: ${JSON.stringify(slowUiData)}`);
+  }
+  console.log("   ✓ Progress relayed, timeouts and cancellation forwarded\n");
+
+  // 15. Without a browser, app views are written as self-contained HTML files
+  console.log("15. Exporting app views...");
+  const exportDir = join(mkdtempSync(join(tmpdir(), "mcp-app-shim-export-")), "views");
+  const exportClient = new Client({ name: "test-client", version: "1.0.0" });
+  await exportClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--export-dir", exportDir, "http://localhost:3456/mcp"],
+  }));
+  const exported = await exportClient.callTool({ name: "show_widget", arguments: { title: "Exported" } });
+  await exportClient.close();
+  const exportedText = (exported.content as any[]).map((c: any) => c.text).join("");
+  const [exportFile] = readdirSync(exportDir);
+  if (!exportFile || !exportedText.includes(join(exportDir, exportFile))) {
+    throw new Error(`Export path not returned: ${exportedText}`);
+  }
+  const snapshot = readFileSync(join(exportDir, exportFile), "utf-8");
+  for (const expected of ['"title":"Exported"', "Widget created: Exported", "ui/notifications/tool-result"]) {
+    if (!snapshot.includes(expected)) throw new Error(`Snapshot is missing ${expected}`);
+  }
+  if (snapshot.includes("new WebSocket")) throw new Error("Snapshot depends on a WebSocket");
+  console.log("   ✓ Snapshot written to", exportFile, "\n");
+
+  // 16. The dashboard lists sessions, duplicates and deletes them, and
+  // persisted sessions are still there after the viewer restarts
+  console.log("16. Session dashboard and persistence...");
+  const sessionsConfig = join(viewerConfigDir, "sessions.json");
+  writeFileSync(sessionsConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9293, sandboxPort: 9294, share: false },
+    browser: { open: false },
+    sessions: { persist: true, dir: "./sessions" },
+  }));
+  const listSessions = async () => {
+    const res = await fetch("http://localhost:9293/api/sessions");
+    return (await res.json()).sessions as { id: string; toolName: string; toolInput: any; status: string }[];
+  };
+
+  const firstRun = await openApp(sessionsConfig);
+  const dashboard = await fetch("http://localhost:9293/");
+  if (!(await dashboard.text()).includes("MCP App Sessions")) throw new Error("Dashboard not served at /");
+  const [listed] = await listSessions();
+  if (listed?.toolName !== "show_widget" || listed.toolInput.title !== "Shared" || listed.status !== "connected") {
+    throw new Error(`Unexpected session listing: ${JSON.stringify(listed)}`);
+  }
+  const duplicate = await fetch(`http://localhost:9293/api/sessions/${listed.id}/duplicate`, { method: "POST" });
+  const { id: copyId } = await duplicate.json();
+  if ((await listSessions()).length !== 2) throw new Error("Session was not duplicated");
+  const ownSessions = await firstRun.shimClient.callTool({ name: "list_app_sessions", arguments: {} });
+  if (!(ownSessions.content as any[])[0]?.text.includes(copyId)) throw new Error("Copy is not one of the shim's sessions");
+  await fetch(`http://localhost:9293/api/sessions/${copyId}`, { method: "DELETE" });
+  if ((await listSessions()).length !== 1) throw new Error("Session was not deleted");
+  if (readdirSync(join(viewerConfigDir, "sessions")).length !== 1) throw new Error("Sessions not persisted");
+  await firstRun.shimClient.close();
+  await sleep(500);
+
+  const secondRun = await openApp(sessionsConfig);
+  const restored = (await listSessions()).find(session => session.id === listed.id);
+  await secondRun.shimClient.close();
+  if (restored?.status !== "closed") throw new Error(`Session not restored: ${JSON.stringify(restored)}`);
+  console.log("   ✓ Sessions listed, duplicated, deleted and restored\n");
+
+  // 17. A repeated app tool call updates the tab that is still open
+  console.log("17. Reusing an open tab...");
+  const reuseConfig = join(viewerConfigDir, "reuse.json");
+  writeFileSync(reuseConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9295, sandboxPort: 9296, share: false },
+    browser: { open: false, reuse: "resource" },
+  }));
+  const reuseApp = await openApp(reuseConfig);
+  const callWidget = async (title: string) => {
+    const result = await reuseApp.shimClient.callTool({ name: "show_widget", arguments: { title } });
+    return /(http:\/\/localhost:\d+\/app\/\S+)/.exec((result.content as any[]).map((c: any) => c.text).join(""))?.[1];
+  };
+  const tabWs = new WebSocket(`ws://localhost:9295/?session=${reuseApp.url.pathname.split("/").pop()}`);
+  const pushed = new Promise<any>((resolve, reject) => {
+    tabWs.on("error", reject);
+    tabWs.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "tool-call") resolve(msg);
+    });
+  });
+  await new Promise((resolve) => tabWs.once("open", resolve));
+  await sleep(200);
+  const reusedUrl = await callWidget("Again");
+  const pushedCall = await pushed;
+  if (reusedUrl !== reuseApp.url.href) throw new Error(`Tab not reused: ${reusedUrl}`);
+  if (pushedCall.toolInput.title !== "Again") throw new Error(`Unexpected tool input pushed: ${JSON.stringify(pushedCall)}`);
+  tabWs.close();
+  await sleep(200);
+  const freshUrl = await callWidget("Closed");
+  await reuseApp.shimClient.close();
+  if (freshUrl === reuseApp.url.href) throw new Error("Closed tab was reused");
+  console.log("   ✓ Open tab updated, closed tab replaced\n");
+
+  // 18. What an app tells the model reaches the MCP client, here through the
+  // shared viewer: as a resource per session and with the next tool result
+  console.log("18. Surfacing app messages and model context...");
+  const contextApp = await openApp(viewerConfig({}));
+  const contextClient = contextApp.shimClient;
+  const contextUri = (await contextClient.listResources()).resources
+    .find(r => r.uri.startsWith("mcp-app-shim://sessions/"))?.uri;
+  if (!contextUri) throw new Error("No resource for the app session");
+  const contextUpdated = new Promise<void>((resolve) => {
+    contextClient.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      if (n.params.uri === contextUri) resolve();
+    });
+  });
+  await contextClient.subscribeResource({ uri: contextUri });
+
+  const contextWs = new WebSocket(`ws://localhost:9271/?session=${contextApp.url.pathname.split("/").pop()}`);
+  await new Promise((resolve, reject) => {
+    contextWs.once("message", resolve);
+    contextWs.once("error", reject);
+  });
+  const sendAppMessage = (method: string, params: object) =>
+    contextWs.send(JSON.stringify({ type: "app-message", message: { method, params } }));
+  sendAppMessage("ui/update-model-context", { content: [{ type: "text", text: "The widget shows 3 shapes" }] });
+  sendAppMessage("ui/message", { role: "user", content: [{ type: "text", text: "Make them blue" }] });
+  sendAppMessage("ui/message", { role: "assistant", content: "not a valid message" });
+  await contextUpdated;
+  await sleep(200);
+  contextWs.close();
+
+  const contextResource = await contextClient.readResource({ uri: contextUri });
+  const contextState = JSON.parse((contextResource.contents[0] as any).text);
+  if (contextState.modelContext?.content?.[0]?.text !== "The widget shows 3 shapes" || contextState.messages.length !== 1) {
+    throw new Error(`Unexpected app context: ${JSON.stringify(contextState)}`);
+  }
+  const nextCall = async () => {
+    const result = await contextClient.callTool({ name: "show_widget", arguments: { title: "Next" } });
+    return (result.content as any[]).map((c: any) => c.text).join("\n");
+  };
+  const withContext = await nextCall();
+  if (!withContext.includes("3 shapes") || !withContext.includes("Make them blue")) {
+    throw new Error(`Next tool result lacks the app's context: ${withContext}`);
+  }
+  if ((await nextCall()).includes("3 shapes")) throw new Error("App context repeated after it was seen");
+  // Deleting the session on the viewer drops its resource
+  await fetch(`http://localhost:9271/api/sessions/${contextUri.slice("mcp-app-shim://sessions/".length)}`, { method: "DELETE" });
+  await sleep(200);
+  if ((await contextClient.listResources()).resources.some(r => r.uri === contextUri)) {
+    throw new Error("Deleted session is still listed as a resource");
+  }
+  await contextClient.close();
+  console.log("   ✓ App context exposed as a resource, added to the next result and dropped with the session\n");
+
+  // 19. The shim's own tools list, inspect, close and reopen its app sessions
+  console.log("19. Managing app sessions with the shim's tools...");
+  const managedApp = await openApp(viewerConfig({}));
+  const managed = managedApp.shimClient;
+  const callJson = async (name: string, args: object = {}) => {
+    const result = await managed.callTool({ name, arguments: args });
+    const text = (result.content as any[])[0]?.text;
+    return result.isError ? { error: text } : JSON.parse(text);
+  };
+  const managedId = managedApp.url.pathname.split("/").pop()!;
+  const [listedSession] = await callJson("list_app_sessions");
+  if (listedSession?.sessionId !== managedId || listedSession.status !== "closed") {
+    throw new Error(`Unexpected session list: ${JSON.stringify(listedSession)}`);
+  }
+
+  const managedWs = new WebSocket(`ws://localhost:9271/?session=${managedId}`);
+  const closedByTool = new Promise<void>((resolve, reject) => {
+    managedWs.on("error", reject);
+    managedWs.on("message", (data) => {
+      if (JSON.parse(data.toString()).type === "session-closed") resolve();
+    });
+  });
+  await new Promise((resolve) => managedWs.once("message", resolve));
+  const managedState = await callJson("get_app_session_state", { sessionId: managedId });
+  if (managedState.status !== "open" || managedState.toolInput?.title !== "Shared" || !managedState.toolResult) {
+    throw new Error(`Unexpected session state: ${JSON.stringify(managedState)}`);
+  }
+  await callJson("close_app_session", { sessionId: managedId });
+  await closedByTool;
+  const reopened = await callJson("reopen_app_session", { sessionId: managedId });
+  if (reopened.url !== managedApp.url.href) throw new Error(`Unexpected reopen result: ${JSON.stringify(reopened)}`);
+  const missing = await callJson("get_app_session_state", { sessionId: "nope" });
+  await managed.close();
+  if (!missing.error) throw new Error("Unknown session did not fail");
+  console.log("   ✓ Sessions listed, inspected, closed and reopened\n");
+
+  // 20. Remote mode: one port, a public URL, no browser, a locked dashboard.
+  // Requests carry the public host name, as they would through a forwarded port.
+  console.log("20. Serving a remote viewer...");
+  const remoteConfig = join(viewerConfigDir, "remote.json");
+  writeFileSync(remoteConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9297, share: false, publicUrl: "http://devbox.test:9297" },
+  }));
+  const remoteClient = new Client({ name: "test-client", version: "1.0.0" });
+  await remoteClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", remoteConfig],
+  }));
+  const remoteText = ((await remoteClient.callTool({ name: "show_widget", arguments: { title: "Remote" } })).content as any[])
+    .map((c: any) => c.text).join("");
+  const remoteId = /Open the interactive view in your browser:\s+http:\/\/devbox\.test:9297\/app\/(\w+)/.exec(remoteText)?.[1];
+  if (!remoteId) throw new Error(`No public app URL in result: ${remoteText}`);
+  const getRemote = (path: string) => new Promise<{ status?: number; headers: Record<string, any> }>((resolve, reject) => {
+    httpGet(`http://localhost:9297${path}`, { headers: { Host: "devbox.test:9297" } }, (res) => {
+      res.resume();
+      resolve({ status: res.statusCode, headers: res.headers });
+    }).on("error", reject);
+  });
+  const remoteSandbox = await getRemote(`/sandbox/sandbox.html?session=${remoteId}`);
+  if (remoteSandbox.status !== 200 || !remoteSandbox.headers["content-security-policy"]?.includes("sandbox allow-scripts")) {
+    throw new Error(`Sandbox not served on the public port in its own origin: ${JSON.stringify(remoteSandbox)}`);
+  }
+  if ((await getRemote("/api/sessions")).status !== 403) throw new Error("Remote dashboard API served without a token");
+  const remoteWs = new WebSocket(`ws://localhost:9297/?session=${remoteId}`, {
+    headers: { Host: "devbox.test:9297", Origin: "http://devbox.test:9297" },
+  });
+  const remoteData = await new Promise<any>((resolve, reject) => {
+    remoteWs.on("error", reject);
+    remoteWs.on("message", (data) => resolve(JSON.parse(data.toString())));
+  });
+  // Shutting down lets the open app save its state before the shim goes
+  const tornDown = new Promise<void>((resolve) => {
+    remoteWs.on("message", (data) => {
+      if (JSON.parse(data.toString()).type !== "teardown") return;
+      remoteWs.send(JSON.stringify({ type: "teardown-complete" }));
+      resolve();
+    });
+  });
+  await Promise.all([remoteClient.close(), tornDown]);
+  remoteWs.close();
+  if (remoteData.sandboxUrl !== `http://devbox.test:9297/sandbox/sandbox.html?session=${remoteId}`) {
+    throw new Error(`Unexpected remote sandbox URL: ${remoteData.sandboxUrl}`);
+  }
+  // Listening on the network without a public URL locks the dashboard all the same
+  const exposedConfig = join(viewerConfigDir, "exposed.json");
+  writeFileSync(exposedConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9301, sandboxPort: 9302, bindAddress: "0.0.0.0", share: false },
+    browser: { open: false },
+  }));
+  const exposedClient = new Client({ name: "test-client", version: "1.0.0" });
+  await exposedClient.connect(new StdioClientTransport({
+    command: "node",
+    args: [join(root, "dist", "index.js"), "--config", exposedConfig],
+  }));
+  await exposedClient.callTool({ name: "show_widget", arguments: { title: "Exposed" } });
+  const exposedSessions = await fetch("http://localhost:9301/api/sessions", { headers: { Host: "devbox.test:9301" } });
+  await exposedClient.close();
+  if (exposedSessions.status !== 403) throw new Error("Dashboard API served without a token on 0.0.0.0");
+  console.log("   ✓ Apps served behind one public port, and torn down on shutdown\n");
+
+  // 21. UI resources are prefetched, reused until the upstream reports them
+  // updated, and kept on disk for the next run
+  console.log("21. Caching UI resources...");
+  const cacheConfig = join(viewerConfigDir, "ui-cache.json");
+  writeFileSync(cacheConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9299, sandboxPort: 9300, share: false },
+    browser: { open: false },
+    uiResources: { prefetch: true, persist: true, dir: "./ui-cache" },
+    tools: { overrides: { show_widget: { ui: "ui://test/widget-blob.html" } } },
+  }));
+  const blobReads = async () => {
+    const result = await client.callTool({ name: "ui_reads", arguments: {} });
+    return JSON.parse((result.content as any[])[0].text)["ui://test/widget-blob.html"] ?? 0;
+  };
+  const startCached = async () => {
+    const cacheClient = new Client({ name: "test-client", version: "1.0.0" });
+    await cacheClient.connect(new StdioClientTransport({
+      command: "node",
+      args: [join(root, "dist", "index.js"), "--config", cacheConfig],
+    }));
+    return cacheClient;
+  };
+  const showCached = async (cacheClient: Client) => {
+    const result = await cacheClient.callTool({ name: "show_widget", arguments: { title: "Cached" } });
+    const text = (result.content as any[]).map((c: any) => c.text).join("");
+    const id = /http:\/\/localhost:9299\/app\/(\w+)/.exec(text)?.[1];
+    if (!id) throw new Error(`No app URL in result: ${text}`);
+    return id;
+  };
+
+  const readsBefore = await blobReads();
+  const cacheClient = await startCached();
+  for (let attempt = 0; attempt < 50 && await blobReads() === readsBefore; attempt++) await sleep(50);
+  if (await blobReads() !== readsBefore + 1) throw new Error("UI resource was not prefetched");
+  const cachedId = await showCached(cacheClient);
+  await showCached(cacheClient);
+  if (await blobReads() !== readsBefore + 1) throw new Error("Cached UI resource was read again");
+
+  // The HTML comes from the blob entry, not the first one
+  const cachedWs = new WebSocket(`ws://localhost:9299/?session=${cachedId}`);
+  const cachedData = await new Promise<any>((resolve, reject) => {
+    cachedWs.on("error", reject);
+    cachedWs.on("message", (data) => resolve(JSON.parse(data.toString())));
+  });
+  cachedWs.close();
+  if (!cachedData.html?.includes("<title>Test Widget</title>")) {
+    throw new Error(`Unexpected HTML from the blob resource: ${cachedData.html}`);
+  }
+
+  // The cache's subscription is its own: the client hears nothing of it, and
+  // unsubscribing the client does not end it
+  const clientUpdates: string[] = [];
+  cacheClient.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => void clientUpdates.push(n.params.uri));
+  await cacheClient.callTool({ name: "touch_widget", arguments: {} });
+  await sleep(100);
+  await showCached(cacheClient);
+  if (await blobReads() !== readsBefore + 2) throw new Error("Updated UI resource was not read again");
+  await cacheClient.subscribeResource({ uri: "ui://test/widget-blob.html" });
+  await cacheClient.unsubscribeResource({ uri: "ui://test/widget-blob.html" });
+  await cacheClient.callTool({ name: "touch_widget", arguments: {} });
+  await sleep(100);
+  await showCached(cacheClient);
+  if (await blobReads() !== readsBefore + 3) throw new Error("Client unsubscribing ended the cache's subscription");
+  if (clientUpdates.length > 0) throw new Error(`Client got updates it never subscribed to: ${clientUpdates}`);
+  await cacheClient.close();
+
+  const restartedClient = await startCached();
+  await showCached(restartedClient);
+  await restartedClient.close();
+  if (await blobReads() !== readsBefore + 3) throw new Error("UI resource cached on disk was read again");
+  if (readdirSync(join(viewerConfigDir, "ui-cache")).length !== 1) throw new Error("UI resource not cached on disk");
+  console.log("   ✓ UI resources prefetched, cached, invalidated and persisted\n");
+
+  // 22. The host page answers the app's display mode requests, and on shutdown
+  // has the app save its state (its requests still working) before the viewer goes
+  console.log("22. Running an app in the host page...");
+  const pageConfig = join(viewerConfigDir, "page.json");
+  writeFileSync(pageConfig, JSON.stringify({
+    upstreams: [{ url: "http://localhost:3456/mcp" }],
+    host: { port: 9303, sandboxPort: 9304, share: false },
+    browser: { open: false },
+  }));
+  const pageApp = await openApp(pageConfig);
+  const page = await runHostPage(pageApp.url);
+  while (!page.frame.src) await sleep(50);
+  page.send({ method: "ui/notifications/sandbox-proxy-ready" });
+  await page.receive(m => m.method === "ui/notifications/sandbox-resource-ready");
+  page.send({ jsonrpc: "2.0", id: 1, method: "ui/initialize", params: {} });
+  const pageInit = await page.receive(m => m.id === 1);
+  if (pageInit.result?.hostContext?.displayMode !== "inline") {
+    throw new Error(`Unexpected initial host context: ${JSON.stringify(pageInit)}`);
+  }
+
+  page.send({ jsonrpc: "2.0", id: 2, method: "ui/request-display-mode", params: { mode: "fullscreen" } });
+  const modeSet = await page.receive(m => m.id === 2);
+  const contextChanged = await page.receive(m => m.method === "ui/notifications/host-context-changed");
+  if (modeSet.result?.mode !== "fullscreen" || contextChanged.params.displayMode !== "fullscreen"
+    || page.body.dataset.displayMode !== "fullscreen") {
+    throw new Error(`Display mode not applied: ${JSON.stringify({ modeSet, contextChanged })}`);
+  }
+  page.send({ jsonrpc: "2.0", id: 3, method: "ui/request-display-mode", params: { mode: "minimized" } });
+  if ((await page.receive(m => m.id === 3)).result?.mode !== "fullscreen") {
+    throw new Error("Unsupported display mode was not refused");
+  }
+
+  const pageEvents: string[] = [];
+  const pageSocket = page.socket();
+  const viewerGone = new Promise<void>((resolve) => pageSocket.once("close", () => {
+    pageEvents.push("viewer closed");
+    resolve();
+  }));
+  const pageClosing = pageApp.shimClient.close();
+  const teardown = await page.receive(m => m.method === "ui/resource-teardown");
+  pageEvents.push("teardown");
+  page.send({ jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "echo", arguments: { message: "saving" } } });
+  const saved = await page.receive(m => m.id === 4);
+  pageEvents.push(JSON.stringify(saved.result?.content).includes("saving") ? "saved" : "save failed");
+  pageEvents.push("teardown answered");
+  page.send({ jsonrpc: "2.0", id: teardown.id, result: {} });
+  await Promise.all([pageClosing, viewerGone]);
+  if (pageEvents.join(", ") !== "teardown, saved, teardown answered, viewer closed") {
+    throw new Error(`Unexpected shutdown order: ${pageEvents.join(", ")}`);
+  }
+  console.log("   ✓ Display mode changed, and the app saved its state before the viewer closed\n");
+
   // Cleanup
-  console.log("6. Cleaning up...");
+  console.log("23. Cleaning up...");
   await client.close();
   testServer.kill();
   console.log("   ✓ Done\n");
@@ -3,19 +3,52 @@
 /**
  * Test MCP server that registers both a normal tool and an app tool.
  * Used to validate the mcp-app-shim proxy.
+ *
+ * Serves Streamable HTTP on port 3456 by default, or MCP over stdio when run
+ * with --stdio. Over HTTP, /mcp-auth serves the same tools behind OAuth, with
+ * a mock authorization server (auto-approving, in memory) on the same port.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  isInitializeRequest,
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  ListRootsResultSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { mcpAuthRouter, getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { DemoInMemoryAuthProvider } from "@modelcontextprotocol/sdk/examples/server/demoInMemoryOAuthProvider.js";
 import express from "express";
 import { createServer } from "node:http";
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
 
+const BASE_URL = new URL("http://localhost:3456");
+const AUTH_MCP_URL = new URL("/mcp-auth", BASE_URL);
+
 const app = express();
 app.use(express.json());
 
+// Mock OAuth authorization server protecting /mcp-auth
+const authProvider = new DemoInMemoryAuthProvider();
+app.use(mcpAuthRouter({
+  provider: authProvider,
+  issuerUrl: BASE_URL,
+  resourceServerUrl: AUTH_MCP_URL,
+}));
+app.use("/mcp-auth", requireBearerAuth({
+  verifier: authProvider,
+  resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(AUTH_MCP_URL),
+}));
+
+const MCP_PATHS = ["/mcp", "/mcp-auth"];
+
 const WIDGET_HTML = `<!DOCTYPE html>
 <html>
 <head><title>Test Widget</title></head>
@@ -38,10 +71,16 @@ const WIDGET_HTML = `<!DOCTYPE html>
 </body>
 </html>`;
 
+let lastSlowOutcome = "none";
+/** How often each UI resource was read, across sessions. */
+const uiReads: Record<string, number> = {};
+
 function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "test-mcp-server",
     version: "1.0.0",
+  }, {
+    capabilities: { logging: {}, resources: { subscribe: true } },
   });
 
   server.registerTool(
@@ -50,9 +89,13 @@ function createMcpServer(): McpServer {
       description: "Echoes back the input",
       inputSchema: { message: z.string() },
     },
-    async ({ message }) => ({
-      content: [{ type: "text", text: `Echo: ${message}` }],
-    }),
+    async ({ message }, extra) => {
+      await extra.sendNotification({
+        method: "notifications/message",
+        params: { level: "info", data: `echoing ${message}` },
+      });
+      return { content: [{ type: "text", text: `Echo: ${message}` }] };
+    },
   );
 
   server.registerTool(
@@ -70,6 +113,118 @@ function createMcpServer(): McpServer {
     }),
   );
 
+  // A helper for the widget's own UI, and a tool only the model may use
+  server.registerTool(
+    "widget_state",
+    { description: "Gets the widget's state", _meta: { ui: { visibility: ["app"] } } },
+    async () => ({ content: [{ type: "text", text: "Widget state: ready" }] }),
+  );
+
+  server.registerTool(
+    "forget_widgets",
+    { description: "Forgets every widget", _meta: { ui: { visibility: ["model"] } } },
+    async () => ({ content: [{ type: "text", text: "Forgot every widget" }] }),
+  );
+
+  // Sends a server-to-client request back through the shim
+  server.registerTool(
+    "ask_client",
+    {
+      description: "Asks the client to elicit a name, sample a message or list its roots, or names what it supports",
+      inputSchema: { what: z.enum(["elicit", "sample", "roots", "capabilities"]) },
+    },
+    async ({ what }, extra) => {
+      let text: string;
+      if (what === "elicit") {
+        const result = await extra.sendRequest({
+          method: "elicitation/create",
+          params: {
+            message: "Who should we greet?",
+            requestedSchema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+          },
+        }, ElicitResultSchema);
+        text = `${result.action}: ${result.content?.name ?? ""}`;
+      } else if (what === "sample") {
+        const result = await extra.sendRequest({
+          method: "sampling/createMessage",
+          params: { messages: [{ role: "user", content: { type: "text", text: "Say hi" } }], maxTokens: 10 },
+        }, CreateMessageResultSchema);
+        text = result.content.type === "text" ? result.content.text : result.content.type;
+      } else if (what === "capabilities") {
+        text = Object.keys(server.server.getClientCapabilities() ?? {}).sort().join(",");
+      } else {
+        const result = await extra.sendRequest({ method: "roots/list" }, ListRootsResultSchema);
+        text = result.roots.map(root => root.uri).join(",");
+      }
+      return { content: [{ type: "text", text }] };
+    },
+  );
+
+  // Reports progress while it works, and notices cancellation
+  server.registerTool(
+    "slow",
+    {
+      description: "Works for `ms` milliseconds in five steps, reporting progress",
+      inputSchema: { ms: z.number() },
+    },
+    async ({ ms }, extra) => {
+      const progressToken = extra._meta?.progressToken;
+      for (let step = 1; step <= 5; step++) {
+        await new Promise((resolve) => setTimeout(resolve, ms / 5));
+        if (extra.signal.aborted) {
+          lastSlowOutcome = "cancelled";
+          return { content: [{ type: "text", text: "Cancelled" }] };
+        }
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: step, total: 5 },
+          });
+        }
+      }
+      lastSlowOutcome = "finished";
+      return { content: [{ type: "text", text: `Worked ${ms}ms` }] };
+    },
+  );
+
+  server.registerTool(
+    "slow_outcome",
+    { description: "How the last slow call ended" },
+    async () => ({ content: [{ type: "text", text: lastSlowOutcome }] }),
+  );
+
+  // Forgets every HTTP session, as a restarted server would
+  server.registerTool(
+    "drop_sessions",
+    { description: "Closes all HTTP sessions after responding" },
+    async () => {
+      setTimeout(() => {
+        for (const transport of Object.values(transports)) void transport.close();
+      }, 100);
+      return { content: [{ type: "text", text: "Dropping sessions" }] };
+    },
+  );
+
+  // Registers a tool at runtime, which sends notifications/tools/list_changed
+  server.registerTool(
+    "add_tool",
+    {
+      description: "Registers a new echo tool under the given name",
+      inputSchema: { name: z.string() },
+    },
+    async ({ name }) => {
+      server.registerTool(name, { description: `Echo added at runtime` }, async () => ({
+        content: [{ type: "text", text: `Hello from ${name}` }],
+      }));
+      return { content: [{ type: "text", text: `Added ${name}` }] };
+    },
+  );
+
+  const readWidget = (uri: string) => {
+    uiReads[uri] = (uiReads[uri] ?? 0) + 1;
+    return WIDGET_HTML;
+  };
+
   server.registerResource(
     "Test Widget",
     "ui://test/widget.html",
@@ -78,18 +233,111 @@ function createMcpServer(): McpServer {
       contents: [{
         uri: "ui://test/widget.html",
         mimeType: "text/html;profile=mcp-app",
-        text: WIDGET_HTML,
+        text: readWidget("ui://test/widget.html"),
+        _meta: {
+          ui: {
+            csp: { connectDomains: ["https://api.example.com", "javascript:alert(1)"] },
+            permissions: { clipboardWrite: {} },
+          },
+        },
       }],
     }),
   );
 
+  // The same widget, read slowly, as from a busy server
+  server.registerResource(
+    "Test Widget (slow)",
+    "ui://test/widget-slow.html",
+    { mimeType: "text/html;profile=mcp-app" },
+    async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      return {
+        contents: [{
+          uri: "ui://test/widget-slow.html",
+          mimeType: "text/html;profile=mcp-app",
+          text: readWidget("ui://test/widget-slow.html"),
+        }],
+      };
+    },
+  );
+
+  // The same widget as a base64 blob, after another entry
+  server.registerResource(
+    "Test Widget (blob)",
+    "ui://test/widget-blob.html",
+    { mimeType: "text/html;profile=mcp-app" },
+    async () => ({
+      contents: [
+        { uri: "ui://test/widget-blob.json", mimeType: "application/json", text: "{}" },
+        {
+          uri: "ui://test/widget-blob.html",
+          mimeType: "text/html;profile=mcp-app",
+          blob: Buffer.from(readWidget("ui://test/widget-blob.html")).toString("base64"),
+        },
+      ],
+    }),
+  );
+
+  // Subscribers hear when touch_widget "changes" the widgets
+  const subscriptions = new Set<string>();
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.registerTool(
+    "touch_widget",
+    { description: "Reports the widget's UI resources as updated" },
+    async () => {
+      for (const uri of subscriptions) {
+        if (uri.startsWith("ui://test/")) await server.server.sendResourceUpdated({ uri });
+      }
+      return { content: [{ type: "text", text: "Touched" }] };
+    },
+  );
+
+  server.registerTool(
+    "ui_reads",
+    { description: "How often each UI resource was read" },
+    async () => ({ content: [{ type: "text", text: JSON.stringify(uiReads) }] }),
+  );
+
+  const names = ["Alice", "Bob"];
+
+  server.registerPrompt(
+    "greet",
+    {
+      description: "Greets someone",
+      argsSchema: { name: completable(z.string(), value => names.filter(n => n.startsWith(value))) },
+    },
+    ({ name }) => ({
+      messages: [{ role: "user", content: { type: "text", text: `Say hello to ${name}` } }],
+    }),
+  );
+
+  server.registerResource(
+    "Greeting",
+    new ResourceTemplate("test://greeting/{name}", {
+      list: undefined,
+      complete: { name: value => names.filter(n => n.startsWith(value)) },
+    }),
+    { mimeType: "text/plain" },
+    async (uri, { name }) => ({
+      contents: [{ uri: uri.href, text: `Hello, ${name}!` }],
+    }),
+  );
+
   return server;
 }
 
 // Set up Streamable HTTP transport — new McpServer per session
 const transports: Record<string, StreamableHTTPServerTransport> = {};
 
-app.post("/mcp", async (req, res) => {
+app.post(MCP_PATHS, async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
   if (sessionId && transports[sessionId]) {
@@ -123,7 +371,7 @@ app.post("/mcp", async (req, res) => {
   });
 });
 
-app.get("/mcp", async (req, res) => {
+app.get(MCP_PATHS, async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
   if (sessionId && transports[sessionId]) {
     await transports[sessionId].handleRequest(req, res);
@@ -132,7 +380,7 @@ app.get("/mcp", async (req, res) => {
   res.status(400).send("No session");
 });
 
-app.delete("/mcp", async (req, res) => {
+app.delete(MCP_PATHS, async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
   if (sessionId && transports[sessionId]) {
     await transports[sessionId].handleRequest(req, res);
@@ -141,7 +389,12 @@ app.delete("/mcp", async (req, res) => {
   res.status(400).send("No session");
 });
 
-const httpServer = createServer(app);
-httpServer.listen(3456, () => {
-  console.log("Test MCP server running at http://localhost:3456/mcp");
-});
+if (process.argv.includes("--stdio")) {
+  await createMcpServer().connect(new StdioServerTransport());
+  console.error("Test MCP server running on stdio");
+} else {
+  const httpServer = createServer(app);
+  httpServer.listen(3456, () => {
+    console.log("Test MCP server running at http://localhost:3456/mcp");
+  });
+}